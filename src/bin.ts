@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+import { EXIT, run } from "./cli.js";
+
+/** The parts of Node's `process` the CLI needs. */
+interface NodeProcess {
+  argv: string[];
+  env: Record<string, string | undefined>;
+  exitCode?: number;
+  stdout: { write(text: string): void };
+  stderr: { write(text: string): void };
+  stdin: AsyncIterable<unknown> & { isTTY?: boolean };
+}
+
+const proc = (globalThis as unknown as { process: NodeProcess }).process;
+
+async function readStdin(): Promise<string | undefined> {
+  if (proc.stdin.isTTY) return undefined;
+  let text = "";
+  for await (const chunk of proc.stdin) text += String(chunk);
+  return text;
+}
+
+run(proc.argv.slice(2), {
+  stdout: (text) => proc.stdout.write(text),
+  stderr: (text) => proc.stderr.write(text),
+  readStdin,
+  env: proc.env,
+}).then(
+  (code) => {
+    proc.exitCode = code;
+  },
+  (error: unknown) => {
+    proc.stderr.write(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+    proc.exitCode = EXIT.ERRORS;
+  },
+);
@@ -0,0 +1,247 @@
+import { merge } from "./merge.js";
+import { normalize } from "./normalize.js";
+import {
+  parse,
+  safeParse,
+  splitConnectionStrings,
+  splitListValue,
+  type LlmConnectionConfig,
+} from "./parse.js";
+import { PROVIDER_HINT } from "./provider-core.js";
+import { redact } from "./redact.js";
+import { validate, type ValidateOptions, type ValidationIssue } from "./validate.js";
+
+/** Failures that move a chain on to its next entry. */
+export type FailoverCondition =
+  | "rate_limit"
+  | "overloaded"
+  | "timeout"
+  | "5xx"
+  | "context_length";
+
+/** One entry of a fallback chain. */
+export interface ChainEntry {
+  /** The entry's config, with params inherited from earlier entries and canonical param names. */
+  config: LlmConnectionConfig;
+  /** Failures of the previous entry that fall through to this one. Empty for the primary. */
+  on: FailoverCondition[];
+}
+
+/** A `validateChain()` issue, tagged with the entry it's about. */
+export interface ChainIssue extends ValidationIssue {
+  /** Index of the chain entry (0 is the primary). */
+  entry: number;
+}
+
+/** Param listing the conditions an entry takes over on (`?on=rate_limit,5xx`). */
+export const FAILOVER_PARAM = "on";
+
+export const FAILOVER_CONDITIONS: readonly FailoverCondition[] = [
+  "rate_limit",
+  "overloaded",
+  "timeout",
+  "5xx",
+  "context_length",
+];
+
+/** Conditions a fallback entry takes over on when it has no `on` param: transient failures. */
+export const DEFAULT_FAILOVER_CONDITIONS: readonly FailoverCondition[] = [
+  "rate_limit",
+  "overloaded",
+  "timeout",
+  "5xx",
+];
+
+/** Values that turn a feature off; dropping them changes nothing. */
+const OFF_VALUES = new Set(["false", "0", "none"]);
+
+/** Params that belong to one entry and aren't inherited by the next. */
+const ENTRY_ONLY_PARAMS = new Set([FAILOVER_PARAM, PROVIDER_HINT]);
+
+function splitChain(input: string | string[]): string[] {
+  const entries = splitConnectionStrings(input);
+  // An empty chain still goes through parse() so it fails like an empty string
+  return entries.length > 0 ? entries : [""];
+}
+
+function isFailoverCondition(value: string): value is FailoverCondition {
+  return (FAILOVER_CONDITIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve one entry: its own params override the ones inherited from the
+ * previous entry (`?-name` removes one). Returns the config, the entry's
+ * raw `on` value, and the names of the inherited params.
+ */
+function resolveEntry(
+  own: LlmConnectionConfig,
+  previous: LlmConnectionConfig | undefined,
+): { config: LlmConnectionConfig; on: string | undefined; inherited: string[] } {
+  const { [FAILOVER_PARAM]: on, ...params } = own.params;
+  const inheritable = Object.fromEntries(
+    Object.entries(previous?.params ?? {}).filter(([key]) => !ENTRY_ONLY_PARAMS.has(key)),
+  );
+  const { config, sources } = merge(
+    { params: inheritable },
+    {
+      host: own.host,
+      model: own.model,
+      label: own.label ?? null,
+      apiKey: own.apiKey ?? null,
+      params,
+    },
+  );
+  const inherited = Object.entries(sources.params)
+    .filter(([, source]) => source === 0)
+    .map(([key]) => key);
+  return { config, on, inherited };
+}
+
+/**
+ * Parse a fallback chain: several connection strings tried in order, each
+ * taking over when the one before it fails.
+ *
+ * Entries are separated by commas or whitespace before each `llm://`, or
+ * given as an array. Each entry inherits the params of the entry before it,
+ * so a fallback only needs to name its host and model plus whatever it
+ * changes; `?-name` drops an inherited param. The API key and label are not
+ * inherited. `on=` lists the failures of the previous entry that fall
+ * through to this one (default: `rate_limit`, `overloaded`, `timeout`,
+ * `5xx`). Params use canonical names, as with `merge()`.
+ *
+ * Throws an `LlmStringError` for a malformed entry, and an `Error` for an
+ * unknown `on` condition.
+ *
+ * @example
+ * ```ts
+ * parseChain(
+ *   "llm://api.anthropic.com/claude-sonnet-4-5?temp=0.7&cache=1h, " +
+ *   "llm://bedrock-runtime.us-east-1.amazonaws.com/us.anthropic.claude-sonnet-4-5-20250929-v1:0?on=rate_limit,5xx",
+ * );
+ * // → [{ config: { host: "api.anthropic.com", …, params: { temperature: "0.7", cache: "1h" } }, on: [] },
+ * //    { config: { host: "bedrock-runtime…", …, params: { temperature: "0.7", cache: "1h" } },
+ * //      on: ["rate_limit", "5xx"] }]
+ * ```
+ */
+export function parseChain(input: string | string[]): ChainEntry[] {
+  const entries: ChainEntry[] = [];
+  for (const [index, raw] of splitChain(input).entries()) {
+    const { config, on } = resolveEntry(parse(raw), entries.at(-1)?.config);
+    const conditions = on === undefined ? [] : splitListValue(on);
+    const unknown = conditions.find((condition) => !isFailoverCondition(condition));
+    if (unknown !== undefined) {
+      throw new Error(
+        `Cannot parse chain: unknown failover condition "${unknown}" in entry ${index}`,
+      );
+    }
+    entries.push({
+      config,
+      on:
+        index === 0
+          ? []
+          : on === undefined
+            ? [...DEFAULT_FAILOVER_CONDITIONS]
+            : (conditions as FailoverCondition[]),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Validate a fallback chain. Each entry is checked with `validate()`, after
+ * inheriting params as in `parseChain()`, and issues carry the index of the
+ * entry they're about. Also flags:
+ *
+ * - Unknown `on` conditions, and an `on` on the primary (it has nothing to
+ *   fall back from)
+ * - Inherited params that don't carry over to a fallback's provider — e.g.
+ *   `cache=1h` on a fallback to OpenAI, which caches automatically — so
+ *   the fallback would run with different settings than the primary
+ *
+ * An entry that can't be parsed yields an error issue with the parse
+ * error's `code`, and the rest of the chain is still checked.
+ */
+export function validateChain(
+  input: string | string[],
+  options: ValidateOptions = {},
+): ChainIssue[] {
+  const issues: ChainIssue[] = [];
+  let previous: LlmConnectionConfig | undefined;
+
+  for (const [entry, raw] of splitChain(input).entries()) {
+    const result = safeParse(raw);
+    if (!result.ok) {
+      issues.push({
+        entry,
+        param: "connectionString",
+        value: redact(raw),
+        message: result.error.message,
+        severity: "error",
+        code: result.error.code,
+      });
+      continue;
+    }
+
+    const { config, on, inherited } = resolveEntry(result.config, previous);
+    previous = config;
+
+    if (on !== undefined) {
+      if (entry === 0) {
+        issues.push({
+          entry,
+          param: FAILOVER_PARAM,
+          value: on,
+          message: `"${FAILOVER_PARAM}" has no effect on the primary entry; it sets when a fallback takes over.`,
+          severity: options.strict ? "error" : "warning",
+        });
+      }
+      for (const condition of splitListValue(on)) {
+        if (!isFailoverCondition(condition)) {
+          issues.push({
+            entry,
+            param: FAILOVER_PARAM,
+            value: condition,
+            message: `Unknown failover condition "${condition}". Known conditions: ${FAILOVER_CONDITIONS.join(", ")}.`,
+            severity: "error",
+          });
+        }
+      }
+    }
+
+    // Inherited params the fallback's provider drops during normalization
+    const { provider, changes } = normalize(config, { verbose: true });
+    const lost = new Set<string>();
+    for (const change of changes) {
+      if (
+        change.to === "(dropped)" &&
+        inherited.includes(change.from) &&
+        !OFF_VALUES.has(change.value)
+      ) {
+        lost.add(change.from);
+        issues.push({
+          entry,
+          param: change.from,
+          value: config.params[change.from],
+          message: `"${change.from}=${config.params[change.from]}" doesn't carry over to ${provider}: ${change.reason}.`,
+          severity: options.strict ? "error" : "warning",
+        });
+      }
+    }
+
+    for (const issue of validate(config.raw, options)) {
+      // Unknown inherited params are reported as not carrying over instead
+      if (inherited.includes(issue.param) && issue.message.startsWith("Unknown param")) {
+        issues.push({
+          entry,
+          ...issue,
+          message: `"${issue.param}=${issue.value}" doesn't carry over to ${provider}: ${issue.message}`,
+        });
+        continue;
+      }
+      if (lost.has(issue.param)) continue;
+      issues.push({ entry, ...issue });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,341 @@
+import { convert } from "./convert.js";
+import { normalize } from "./normalize.js";
+import {
+  LlmStringError,
+  build,
+  parse,
+  type LlmConnectionConfig,
+} from "./parse.js";
+import { PROVIDER_PARAMS, type Provider } from "./provider-core.js";
+import { redact } from "./redact.js";
+import { validate, type ValidationIssue } from "./validate.js";
+
+/** Where the CLI reads input and writes output, so it can run outside a real process. */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  /** Piped stdin, or `undefined` when stdin is a terminal. */
+  readStdin(): Promise<string | undefined>;
+  env: Record<string, string | undefined>;
+}
+
+/** Exit codes. `validate` exits with the most severe issue found. */
+export const EXIT = {
+  OK: 0,
+  WARNINGS: 1,
+  ERRORS: 2,
+  USAGE: 64,
+} as const;
+
+/** Env var read when no connection string is given. */
+const DEFAULT_ENV = "LLM_URL";
+
+const USAGE = `Usage: llm-strings <command> [connection-string] [options]
+
+Commands:
+  parse       Show the parts of a connection string
+  normalize   Show provider-specific params (--verbose lists each change)
+  validate    Check params against provider rules (--strict promotes warnings)
+  build       Build a string from --host, --model, --label, --api-key, --param k=v
+              or a JSON config
+  redact      Mask the API key and secret-looking params
+  convert     Re-target at another provider (--to <provider> [--model <model>]
+              [--host <host>])
+
+Input: the connection-string argument, the env var named by --env (default
+${DEFAULT_ENV}), or piped stdin with one string per line ("-" forces stdin).
+
+Options:
+  --json      Machine-readable output
+  --env NAME  Read the connection string from $NAME
+  -h, --help  Show this help
+
+Exit codes: 0 ok, 1 warnings, 2 errors, 64 usage error.
+`;
+
+/** Options that take a value; everything else starting with "--" is a flag. */
+const VALUE_OPTIONS = new Set(["env", "to", "model", "host", "label", "api-key", "param"]);
+
+/** Options and flags every command accepts. */
+const GLOBAL_OPTIONS = ["json", "env", "help"];
+
+/** Options and flags each command accepts on top of the global ones. */
+const COMMAND_OPTIONS: Record<string, string[]> = {
+  parse: [],
+  normalize: ["verbose"],
+  validate: ["strict"],
+  build: ["host", "model", "label", "api-key", "param"],
+  redact: [],
+  convert: ["to", "model", "host"],
+};
+
+interface ParsedArgs {
+  command: string | undefined;
+  positionals: string[];
+  flags: Set<string>;
+  options: Map<string, string[]>;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags = new Set<string>();
+  const options = new Map<string, string[]>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "-h") {
+      flags.add("help");
+    } else if (arg.startsWith("--")) {
+      const eq = arg.indexOf("=");
+      const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+      if (!VALUE_OPTIONS.has(name)) {
+        flags.add(name);
+        continue;
+      }
+      const value = eq === -1 ? args[++i] : arg.slice(eq + 1);
+      if (value === undefined) throw new UsageError(`--${name} needs a value`);
+      options.set(name, [...(options.get(name) ?? []), value]);
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  const [command, ...rest] = positionals;
+  return { command, positionals: rest, flags, options };
+}
+
+/** Last value given for an option. */
+function option(args: ParsedArgs, name: string): string | undefined {
+  return args.options.get(name)?.at(-1);
+}
+
+/**
+ * Connection strings to process, in order of preference: the argument, the
+ * env var named by `--env`, `$LLM_URL`, or piped stdin (one per line). `-`
+ * reads stdin explicitly. Env vars win over implicit stdin so a CI step with
+ * an open but idle stdin never blocks.
+ */
+async function readInputs(args: ParsedArgs, io: CliIO): Promise<string[]> {
+  const [arg] = args.positionals;
+  if (arg !== undefined && arg !== "-") return [arg];
+
+  if (arg === undefined) {
+    const envName = option(args, "env");
+    const value = io.env[envName ?? DEFAULT_ENV];
+    if (value) return [value];
+    if (envName !== undefined) throw new UsageError(`$${envName} is not set`);
+  }
+
+  const stdin = await io.readStdin();
+  const lines = (stdin ?? "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"));
+  if (lines.length === 0) throw new UsageError("No connection string given");
+  return lines;
+}
+
+function formatParams(params: Record<string, unknown>): string[] {
+  return Object.entries(params).map(
+    ([key, value]) => `  ${key} = ${Array.isArray(value) ? JSON.stringify(value) : String(value)}`,
+  );
+}
+
+function formatConfig(config: LlmConnectionConfig): string {
+  const safe = redact(config);
+  const lines = [`host:   ${safe.host}`, `model:  ${safe.model}`];
+  if (safe.label) lines.push(`label:  ${safe.label}`);
+  if (safe.apiKey) lines.push(`apiKey: ${safe.apiKey}`);
+  const params = formatParams(safe.params);
+  if (params.length > 0) lines.push("params:", ...params);
+  return lines.join("\n");
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  return `  ${issue.severity.padEnd(7)} ${issue.param}: ${issue.message}`;
+}
+
+function output(io: CliIO, args: ParsedArgs, json: unknown, human: string): void {
+  io.stdout(`${args.flags.has("json") ? JSON.stringify(json, null, 2) : human}\n`);
+}
+
+/** Reject options the command doesn't use, so a typo isn't silently ignored. */
+function checkOptions(args: ParsedArgs): void {
+  if (args.command === undefined || !Object.hasOwn(COMMAND_OPTIONS, args.command)) return;
+  const allowed = [...GLOBAL_OPTIONS, ...COMMAND_OPTIONS[args.command]];
+  for (const name of [...args.flags, ...args.options.keys()]) {
+    if (!allowed.includes(name)) {
+      throw new UsageError(`Unknown option --${name} for ${args.command}`);
+    }
+  }
+}
+
+async function runCommand(args: ParsedArgs, io: CliIO): Promise<number> {
+  checkOptions(args);
+  switch (args.command) {
+    case "parse": {
+      for (const input of await readInputs(args, io)) {
+        const config = parse(input);
+        output(io, args, config, formatConfig(config));
+      }
+      return EXIT.OK;
+    }
+
+    case "normalize": {
+      const verbose = args.flags.has("verbose");
+      for (const input of await readInputs(args, io)) {
+        const result = normalize(parse(input), { verbose });
+        const lines = [
+          `provider: ${result.provider ?? "(unknown)"}`,
+          ...(result.subProvider ? [`subProvider: ${result.subProvider}`] : []),
+          "params:",
+          ...formatParams(result.config.params),
+        ];
+        if (verbose && result.changes.length > 0) {
+          lines.push(
+            "changes:",
+            ...result.changes.map(
+              (change) => `  ${change.from} → ${change.to} (${change.value}): ${change.reason}`,
+            ),
+          );
+        }
+        output(io, args, result, lines.join("\n"));
+      }
+      return EXIT.OK;
+    }
+
+    case "validate": {
+      const strict = args.flags.has("strict");
+      let exit: number = EXIT.OK;
+      const results: { connectionString: string; issues: ValidationIssue[] }[] = [];
+      for (const input of await readInputs(args, io)) {
+        const issues = validate(input, { strict });
+        for (const issue of issues) {
+          exit = Math.max(exit, issue.severity === "error" ? EXIT.ERRORS : EXIT.WARNINGS);
+        }
+        results.push({ connectionString: redact(input), issues });
+      }
+      if (args.flags.has("json")) {
+        io.stdout(`${JSON.stringify(results.length === 1 ? results[0] : results, null, 2)}\n`);
+      } else {
+        for (const { connectionString, issues } of results) {
+          io.stdout(
+            issues.length === 0
+              ? `✓ ${connectionString}\n`
+              : `✗ ${connectionString}\n${issues.map(formatIssue).join("\n")}\n`,
+          );
+        }
+      }
+      return exit;
+    }
+
+    case "build": {
+      const [arg] = args.positionals;
+      const base = arg !== undefined ? (JSON.parse(arg) as Partial<LlmConnectionConfig>) : {};
+      // Repeated keys (`--param stop=a --param stop=b`) collapse into one list value
+      const flagParams: Record<string, string[]> = {};
+      for (const pair of args.options.get("param") ?? []) {
+        const eq = pair.indexOf("=");
+        if (eq < 1) throw new UsageError(`--param expects key=value, got "${pair}"`);
+        (flagParams[pair.slice(0, eq)] ??= []).push(pair.slice(eq + 1));
+      }
+      const params: Record<string, string | string[]> = { ...base.params };
+      for (const [key, values] of Object.entries(flagParams)) {
+        params[key] = values.length > 1 ? values : values[0];
+      }
+      const host = option(args, "host") ?? base.host;
+      const model = option(args, "model") ?? base.model;
+      if (!host || !model) throw new UsageError("build needs --host and --model");
+      // Round-trip through parse() so a malformed result fails here, not later
+      const config = parse(
+        build({
+          host,
+          model,
+          label: option(args, "label") ?? base.label,
+          apiKey: option(args, "api-key") ?? base.apiKey,
+          params,
+        }),
+      );
+      output(io, args, { connectionString: config.raw }, config.raw);
+      return EXIT.OK;
+    }
+
+    case "redact": {
+      for (const input of await readInputs(args, io)) {
+        const redacted = redact(input);
+        output(io, args, { connectionString: redacted }, redacted);
+      }
+      return EXIT.OK;
+    }
+
+    case "convert": {
+      const to = option(args, "to");
+      if (!to) throw new UsageError("convert needs --to <provider>");
+      if (!Object.hasOwn(PROVIDER_PARAMS, to)) {
+        throw new UsageError(`Unknown provider "${to}"`);
+      }
+      let exit: number = EXIT.OK;
+      for (const input of await readInputs(args, io)) {
+        const result = convert(input, to as Provider, {
+          model: option(args, "model"),
+          host: option(args, "host"),
+        });
+        if (result.losses.length > 0) exit = EXIT.WARNINGS;
+        const lines = [redact(result.connectionString)];
+        for (const loss of result.losses) {
+          lines.push(
+            `  ${loss.kind.padEnd(12)} ${loss.param}=${loss.value}` +
+              `${loss.result !== undefined ? ` → ${loss.result}` : ""}: ${loss.reason}`,
+          );
+        }
+        output(
+          io,
+          args,
+          { connectionString: redact(result.connectionString), losses: result.losses },
+          lines.join("\n"),
+        );
+      }
+      return exit;
+    }
+
+    default:
+      throw new UsageError(
+        args.command ? `Unknown command "${args.command}"` : "No command given",
+      );
+  }
+}
+
+/**
+ * Run the `llm-strings` command line with the given arguments (without the
+ * node and script paths). Resolves to the process exit code.
+ */
+export async function run(argv: string[], io: CliIO): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT.USAGE;
+  }
+
+  if (args.flags.has("help")) {
+    io.stdout(USAGE);
+    return EXIT.OK;
+  }
+
+  try {
+    return await runCommand(args, io);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\n\n${USAGE}`);
+      return EXIT.USAGE;
+    }
+    if (error instanceof LlmStringError || error instanceof SyntaxError) {
+      io.stderr(`error: ${error.message}\n`);
+      return EXIT.ERRORS;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,401 @@
+import { fix } from "./fix.js";
+import { normalize } from "./normalize.js";
+import { build, parse, type LlmConnectionConfig } from "./parse.js";
+import { PRESET_PARAM } from "./presets.js";
+import {
+  CANONICAL_PARAM_SPECS,
+  EFFORT_THINKING_BUDGETS,
+  MODELS,
+  PROVIDER_HINT,
+  PROVIDER_META,
+  PROVIDER_PARAMS,
+  bedrockProfileForRegion,
+  bedrockRequiresInferenceProfile,
+  claudeThinkingConflict,
+  detectBedrockModelFamily,
+  detectBedrockRegion,
+  effortThinkingBudget,
+  getModelInfo,
+  mapEffort,
+  resolveAlias,
+  type CanonicalParamSpec,
+  type Provider,
+} from "./providers.js";
+
+/** Something that didn't carry over exactly when converting between providers. */
+export interface ConversionLoss {
+  /** Canonical param name, or "model" / "apiKey". */
+  param: string;
+  /** The original value, or "" when there was none. */
+  value: string;
+  /** `dropped`: left out entirely. `approximated`: replaced by `result`. */
+  kind: "dropped" | "approximated";
+  /** The value used instead, for approximations. */
+  result?: string;
+  reason: string;
+}
+
+export interface ConvertOptions {
+  /**
+   * Model for the target provider. Defaults to the source model when the
+   * provider doesn't change, otherwise to the target's first suggested model.
+   */
+  model?: string;
+  /**
+   * Host for the target provider, e.g. your Azure OpenAI resource. Defaults
+   * to the source host when the provider doesn't change, otherwise to the
+   * target's default host.
+   */
+  host?: string;
+  /**
+   * Canonical params to set on the result, e.g. Azure's `api_version`.
+   * They're added after conversion and override converted values.
+   */
+  params?: Record<string, string>;
+}
+
+export interface ConvertResult {
+  /** The converted connection string, with canonical param names. */
+  connectionString: string;
+  config: LlmConnectionConfig;
+  losses: ConversionLoss[];
+}
+
+/** Params rescaled between ranges rather than clamped. */
+const RESCALED_PARAMS = new Set(["temperature"]);
+
+/** Round away float noise from rescaling (1.6 * 0.5 → 0.8, not 0.8000000000000002). */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Convert one canonical param value for the target. Returns the new value,
+ * or `undefined` to drop it, recording any loss.
+ */
+function convertValue(
+  key: string,
+  value: string,
+  sourceSpec: CanonicalParamSpec | undefined,
+  targetSpec: CanonicalParamSpec | undefined,
+  target: Provider,
+  losses: ConversionLoss[],
+): string | undefined {
+  // normalize() translates the portable cache=true / cache=1h values per provider
+  if (!targetSpec || key === "cache") return value;
+
+  if (targetSpec.type === "number") {
+    const num = Number(value);
+    if (value.trim() === "" || Number.isNaN(num)) return value;
+
+    const { min, max } = targetSpec;
+    if (
+      RESCALED_PARAMS.has(key) &&
+      min !== undefined && max !== undefined &&
+      sourceSpec?.min !== undefined && sourceSpec.max !== undefined &&
+      (sourceSpec.min !== min || sourceSpec.max !== max)
+    ) {
+      const scaled = round(
+        min + ((num - sourceSpec.min) * (max - min)) / (sourceSpec.max - sourceSpec.min),
+      );
+      const result = String(Math.min(max, Math.max(min, scaled)));
+      if (result !== value) {
+        losses.push({
+          param: key,
+          value,
+          kind: "approximated",
+          result,
+          reason: `rescaled from ${sourceSpec.min}–${sourceSpec.max} to ${target}'s ${min}–${max}`,
+        });
+      }
+      return result;
+    }
+
+    if ((min !== undefined && num < min) || (max !== undefined && num > max)) {
+      const result = String(Math.min(max ?? Infinity, Math.max(min ?? -Infinity, num)));
+      losses.push({
+        param: key,
+        value,
+        kind: "approximated",
+        result,
+        reason: `clamped to ${target}'s range ${min ?? "-∞"}–${max ?? "∞"}`,
+      });
+      return result;
+    }
+    return value;
+  }
+
+  if (targetSpec.type === "enum" && targetSpec.values && !targetSpec.values.includes(value)) {
+    const result = key === "effort" ? mapEffort(value, targetSpec.values) : undefined;
+    if (result === undefined) {
+      losses.push({
+        param: key,
+        value,
+        kind: "dropped",
+        reason: `${target} accepts ${targetSpec.values.join(", ")}`,
+      });
+      return undefined;
+    }
+    losses.push({
+      param: key,
+      value,
+      kind: "approximated",
+      result,
+      reason: `closest ${target} effort level`,
+    });
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Translate effort into a thinking budget for targets that only take budgets
+ * (Gemini, Claude on Bedrock), as `normalize()` does, given the converted
+ * `params`. Returns the budget, or `undefined` to drop effort, recording the
+ * loss either way.
+ */
+function effortToThinking(
+  value: string,
+  target: Provider,
+  model: string,
+  explicitThinking: boolean,
+  maxTokens: number | undefined,
+  params: Record<string, string>,
+  losses: ConversionLoss[],
+): string | undefined {
+  const family = target === "bedrock" ? detectBedrockModelFamily(model) : undefined;
+  // Claude only thinks with default sampling
+  const conflict =
+    target === "anthropic" || family === "anthropic" ? claudeThinkingConflict(params) : undefined;
+  let reason: string | undefined;
+  let budget: number | undefined;
+  if (!Object.hasOwn(EFFORT_THINKING_BUDGETS, value)) {
+    reason = `${target} takes a thinking budget, and "${value}" isn't an effort level`;
+  } else if (explicitThinking) {
+    reason = `${target} takes a thinking budget, and one is set explicitly`;
+  } else if (
+    (target === "bedrock" && family !== "anthropic") ||
+    getModelInfo(target, model)?.reasoning === false
+  ) {
+    reason = `"${model}" doesn't support thinking`;
+  } else if (conflict) {
+    reason = `${target} can't think with ${conflict}`;
+  } else {
+    budget = effortThinkingBudget(
+      value as keyof typeof EFFORT_THINKING_BUDGETS,
+      CANONICAL_PARAM_SPECS[target]?.thinking,
+      maxTokens,
+    );
+    reason =
+      EFFORT_THINKING_BUDGETS[value as keyof typeof EFFORT_THINKING_BUDGETS] === 0
+        ? `effort "none": ${target} thinking stays off`
+        : `max_tokens=${maxTokens} leaves no room for ${target}'s minimum thinking budget`;
+  }
+
+  if (budget === undefined) {
+    losses.push({ param: "effort", value, kind: "dropped", reason });
+    return undefined;
+  }
+  losses.push({
+    param: "effort",
+    value,
+    kind: "approximated",
+    result: String(budget),
+    reason: `${target} takes a thinking budget instead of effort: thinking=${budget}`,
+  });
+  return String(budget);
+}
+
+/**
+ * Re-target a connection string at another provider.
+ *
+ * Points the host at the target's default host, rescales temperature to the
+ * target's range, clamps other out-of-range numbers, maps effort levels onto
+ * the target's vocabulary, and drops params the target doesn't support. The
+ * result then gets the corrections `fix()` makes for the target model.
+ * API keys are provider-specific, so the key is dropped when the provider
+ * changes. Everything that didn't carry over exactly is listed in `losses`.
+ *
+ * Azure OpenAI has no usable default host: pass `host` (and `params` with
+ * an `api_version`, which otherwise defaults). On Bedrock, the suggested
+ * model gets the inference profile for the host's region when it needs one.
+ *
+ * @example
+ * ```ts
+ * convert("llm://api.openai.com/gpt-5.2?temp=1.6&freq=0.5&n=3", "anthropic", { model: "claude-sonnet-4-5" })
+ * // → connectionString: "llm://api.anthropic.com/claude-sonnet-4-5?temperature=0.8"
+ * //   losses: temperature approximated (1.6 → 0.8), frequency_penalty and n dropped
+ * ```
+ */
+export function convert(
+  connectionString: string,
+  target: Provider,
+  options: ConvertOptions = {},
+): ConvertResult {
+  if (!Object.hasOwn(PROVIDER_PARAMS, target)) {
+    throw new Error(`Cannot convert: unknown target provider "${target}"`);
+  }
+
+  const source = parse(connectionString);
+  const { provider, subProvider } = normalize(source);
+  // Behind a gateway or on Vertex AI, the model's own provider sets the ranges
+  const sourceDialect = subProvider ?? provider;
+  const sourceSpecs = sourceDialect ? CANONICAL_PARAM_SPECS[sourceDialect] : undefined;
+  const targetParams = PROVIDER_PARAMS[target];
+  const targetSpecs = CANONICAL_PARAM_SPECS[target];
+  const losses: ConversionLoss[] = [];
+
+  // Provider-specific names (maxOutputTokens, stop_sequences) back to canonical
+  const reverse: Record<string, string> = {};
+  for (const [canonical, specific] of Object.entries(
+    provider ? PROVIDER_PARAMS[provider] : {},
+  )) {
+    reverse[specific] = canonical;
+  }
+  // The source provider's own names win over aliases spelled the same way
+  const canonicalOf = (rawKey: string) =>
+    Object.hasOwn(reverse, rawKey) ? reverse[rawKey] : resolveAlias(rawKey);
+  const canonicalKeys = Object.keys(source.params).map(canonicalOf);
+  const explicitThinking = canonicalKeys.includes("thinking");
+  // A generated thinking budget has to fit in max_tokens
+  const maxTokensIndex = canonicalKeys.indexOf("max_tokens");
+  const maxTokens =
+    maxTokensIndex === -1
+      ? undefined
+      : Number(Object.values(source.params)[maxTokensIndex]) || undefined;
+
+  const sameProvider = provider === target;
+  let host = options.host ?? source.host;
+  if (!options.host && !sameProvider) {
+    host = PROVIDER_META.find((meta) => meta.id === target)?.host ?? source.host;
+    // Azure hosts are per resource; the default one is a placeholder
+    if (target === "azure") {
+      losses.push({
+        param: "host",
+        value: source.host,
+        kind: "approximated",
+        result: host,
+        reason: "no host given; pass your Azure OpenAI resource's host",
+      });
+    }
+  }
+
+  let model = options.model ?? source.model;
+  if (!options.model && !sameProvider) {
+    let suggested = MODELS[target]?.[0];
+    // Newer Bedrock models are only callable through an inference profile
+    if (suggested && target === "bedrock" && bedrockRequiresInferenceProfile(suggested)) {
+      const region = detectBedrockRegion(host);
+      suggested = `${(region && bedrockProfileForRegion(region)) ?? "us"}.${suggested}`;
+    }
+    if (suggested) {
+      model = suggested;
+      if (suggested !== source.model) {
+        losses.push({
+          param: "model",
+          value: source.model,
+          kind: "approximated",
+          result: suggested,
+          reason: `no model given; using ${target}'s first suggested model`,
+        });
+      }
+    }
+  }
+
+  const params: Record<string, string> = {};
+  let effort: string | undefined;
+  for (const [rawKey, value] of Object.entries(source.params)) {
+    // The target host selects the provider now
+    if (rawKey === PROVIDER_HINT) continue;
+    if (rawKey === PRESET_PARAM) {
+      params[rawKey] = value;
+      continue;
+    }
+
+    const key = canonicalOf(rawKey);
+
+    // Budget-only targets take effort as a thinking budget, once the
+    // sampling params it depends on are converted
+    if (
+      key === "effort" &&
+      !Object.hasOwn(targetParams, "effort") &&
+      Object.hasOwn(targetParams, "thinking")
+    ) {
+      effort = value;
+      continue;
+    }
+
+    if (!Object.hasOwn(targetParams, key)) {
+      losses.push({
+        param: key,
+        value,
+        kind: "dropped",
+        reason: `${target} does not support "${key}"`,
+      });
+      continue;
+    }
+
+    const converted = convertValue(
+      key,
+      value,
+      sourceSpecs?.[key],
+      targetSpecs?.[key],
+      target,
+      losses,
+    );
+    if (converted !== undefined) params[key] = converted;
+  }
+  if (effort !== undefined) {
+    const budget = effortToThinking(
+      effort,
+      target,
+      model,
+      explicitThinking,
+      maxTokens,
+      params,
+      losses,
+    );
+    if (budget !== undefined) params.thinking = budget;
+  }
+
+  Object.assign(params, options.params);
+  // Azure OpenAI rejects requests without an api-version
+  const apiVersion = targetSpecs?.api_version?.default;
+  if (target === "azure" && params.api_version === undefined && apiVersion !== undefined) {
+    params.api_version = String(apiVersion);
+    losses.push({
+      param: "api_version",
+      value: "",
+      kind: "approximated",
+      result: params.api_version,
+      reason: "Azure OpenAI requires an api-version; using the default",
+    });
+  }
+
+  let apiKey = source.apiKey;
+  if (apiKey !== undefined && !sameProvider) {
+    losses.push({
+      param: "apiKey",
+      // Secret references are safe to report; literal keys never are
+      value: source.apiKeyRef ? apiKey : "(redacted)",
+      kind: "dropped",
+      reason: "API keys are provider-specific",
+    });
+    apiKey = undefined;
+  }
+
+  // The target's own rules: params its reasoning models reject, Claude's
+  // temperature/top_p exclusion, the model's output limit, list lengths
+  const fixed = fix(build({ host, model, label: source.label, apiKey, params }));
+  for (const edit of fixed.edits) {
+    losses.push({
+      param: edit.param,
+      value: edit.value,
+      kind: edit.kind === "dropped" ? "dropped" : "approximated",
+      ...(edit.result !== undefined && { result: edit.result }),
+      reason: edit.reason,
+    });
+  }
+  return { connectionString: fixed.connectionString, config: fixed.config, losses };
+}
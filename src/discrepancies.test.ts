@@ -15,7 +15,7 @@ describe("Parameter Discrepancies & Validation", () => {
 
     it("should fail validation if both temperature and topP are provided for Bedrock Claude", () => {
       const issues = validate(
-        "llm://bedrock-runtime.us-east-1.amazonaws.com/anthropic.claude-sonnet-4-5-20250929-v1:0?temperature=0.7&top_p=0.9",
+        "llm://bedrock-runtime.us-east-1.amazonaws.com/us.anthropic.claude-sonnet-4-5-20250929-v1:0?temperature=0.7&top_p=0.9",
       );
       expect(issues).toHaveLength(1);
       expect(issues[0].message).toContain('Cannot specify both "temperature" and "topP"');
@@ -0,0 +1,223 @@
+import { getModelInfo } from "./model-catalog.js";
+import { normalize } from "./normalize.js";
+import {
+  build,
+  joinListValue,
+  parse,
+  splitListValue,
+  type LlmConnectionConfig,
+} from "./parse.js";
+import {
+  GATEWAY_ROUTING_PARAMS,
+  PARAM_SPECS,
+  PROVIDER_PARAMS,
+  REASONING_MODEL_UNSUPPORTED,
+  bedrockSupportsCaching,
+  detectBedrockModelFamily,
+  isGatewayProvider,
+  isReasoningTarget,
+  paramMapFor,
+  paramSpecsFor,
+  resolveAlias,
+  type ParamSpec,
+} from "./provider-core.js";
+
+/**
+ * Which param `fix()` keeps when a Claude model gets both `temperature`
+ * and `top_p`, which Anthropic rejects together.
+ */
+export type FixStrategy = "keep-temperature" | "keep-top_p";
+
+/** A correction `fix()` applied. */
+export interface FixEdit {
+  /** The param as written in the connection string. */
+  param: string;
+  /** The original value. */
+  value: string;
+  /** `dropped`: removed from the string. `clamped`: replaced by `result`, a shorter list for list params. */
+  kind: "dropped" | "clamped";
+  /** The value used instead, for clamps. */
+  result?: string;
+  reason: string;
+}
+
+export interface FixOptions {
+  /** How to resolve Claude's temperature/top_p conflict. Defaults to `"keep-temperature"`. */
+  strategy?: FixStrategy;
+}
+
+export interface FixResult {
+  /** The corrected connection string. Unchanged when there was nothing to fix. */
+  connectionString: string;
+  config: LlmConnectionConfig;
+  edits: FixEdit[];
+}
+
+/** Bedrock model families that accept topK. */
+const BEDROCK_TOP_K_FAMILIES = new Set(["anthropic", "cohere", "mistral"]);
+
+/** Bedrock cache params, dropped together for models without prompt caching. */
+const BEDROCK_CACHE_PARAMS = new Set(["cache", "cache_ttl"]);
+
+/**
+ * Apply the safe corrections for issues `validate()` reports, keeping
+ * everything else — param names, order, the API key — as written:
+ *
+ * - Out-of-range numbers are clamped to the spec's min/max (behind a
+ *   gateway or on Vertex AI, the model's own provider sets the range)
+ * - `max_tokens` is capped at the model's output limit from the catalog
+ * - List params are cut to the spec's `maxItems`, keeping the first items
+ * - Sampling params OpenAI reasoning models reject are dropped
+ * - On Claude models, `temperature` or `top_p` is dropped when both are
+ *   set, according to `strategy`
+ * - `topK` is dropped on Bedrock models without top-k, and `cache` on
+ *   Bedrock models without prompt caching
+ *
+ * Problems without a safe correction, like unknown params or values of the
+ * wrong type, are left for `validate()` to report. Connection strings for
+ * unknown providers are returned unchanged. Throws an `LlmStringError` for
+ * a malformed connection string.
+ *
+ * @example
+ * ```ts
+ * fix("llm://api.anthropic.com/claude-sonnet-4-5?temp=1.5&top_p=0.9", { strategy: "keep-top_p" })
+ * // → connectionString: "llm://api.anthropic.com/claude-sonnet-4-5?top_p=0.9"
+ * //   edits: [{ param: "temp", value: "1.5", kind: "dropped", reason: "…" }]
+ * ```
+ */
+export function fix(connectionString: string, options: FixOptions = {}): FixResult {
+  const { strategy = "keep-temperature" } = options;
+  const config = parse(connectionString);
+  const { provider, subProvider } = normalize(config);
+  if (!provider) return { connectionString, config, edits: [] };
+
+  const paramMap = paramMapFor(provider, subProvider);
+  const specs = paramSpecsFor(provider, subProvider);
+  const gatewaySubProvider =
+    subProvider && isGatewayProvider(provider) ? subProvider : undefined;
+  const family = provider === "bedrock" ? detectBedrockModelFamily(config.model) : undefined;
+  const claudeModel = (subProvider ?? provider) === "anthropic" || family === "anthropic";
+  const modelInfo = getModelInfo(provider, config.model);
+
+  // Provider-specific names (maxOutputTokens, stop_sequences) back to canonical
+  const reverse: Record<string, string> = {};
+  for (const [canonical, specific] of Object.entries(paramMap)) {
+    reverse[specific] = canonical;
+  }
+  const canonicalOf = (key: string) =>
+    Object.hasOwn(reverse, key) ? reverse[key] : resolveAlias(key);
+
+  /** The spec `validate()` checks a canonical param against. */
+  const specOf = (canonical: string): ParamSpec | undefined => {
+    if (gatewaySubProvider && !GATEWAY_ROUTING_PARAMS.has(canonical)) {
+      const subKey = PROVIDER_PARAMS[gatewaySubProvider][canonical];
+      return subKey ? PARAM_SPECS[gatewaySubProvider][subKey] : undefined;
+    }
+    const key = paramMap[canonical];
+    return key ? specs[key] : undefined;
+  };
+
+  const keys = Object.keys(config.params);
+  const canonicalKeys = keys.map(canonicalOf);
+  // The param to drop when Claude gets both temperature and top_p
+  let conflicting: string | undefined;
+  if (claudeModel && canonicalKeys.includes("temperature") && canonicalKeys.includes("top_p")) {
+    conflicting = strategy === "keep-temperature" ? "top_p" : "temperature";
+  }
+
+  /** Why a param should be dropped, or `undefined` to keep it. */
+  const dropReason = (canonical: string): string | undefined => {
+    if (
+      isReasoningTarget(provider, config.model) &&
+      REASONING_MODEL_UNSUPPORTED.has(canonical)
+    ) {
+      return `OpenAI reasoning model "${config.model}" doesn't support "${canonical}"`;
+    }
+    if (canonical === conflicting) {
+      const kept = conflicting === "top_p" ? "temperature" : "top_p";
+      return `Anthropic models don't take both temperature and top_p; keeping ${kept}`;
+    }
+    if (family && canonical === "top_k" && !BEDROCK_TOP_K_FAMILIES.has(family)) {
+      return `${family} models on Bedrock don't support top-k sampling`;
+    }
+    if (
+      provider === "bedrock" &&
+      BEDROCK_CACHE_PARAMS.has(canonical) &&
+      !bedrockSupportsCaching(config.model)
+    ) {
+      return `prompt caching on Bedrock is only for Claude and Nova models, not ${family ?? "unknown"} models`;
+    }
+    return undefined;
+  };
+
+  const edits: FixEdit[] = [];
+  const params: Record<string, string> = {};
+  for (const [index, key] of keys.entries()) {
+    const value = config.params[key];
+    const canonical = canonicalKeys[index];
+
+    const reason = dropReason(canonical);
+    if (reason !== undefined) {
+      edits.push({ param: key, value, kind: "dropped", reason });
+      continue;
+    }
+
+    const spec = specOf(canonical);
+    const num = Number(value);
+    if (spec?.type === "number" && value.trim() !== "" && !Number.isNaN(num)) {
+      if (canonical === "max_tokens" && modelInfo) {
+        const limit = modelInfo.maxOutputTokens ?? modelInfo.contextWindow;
+        if (num > limit) {
+          edits.push({
+            param: key,
+            value,
+            kind: "clamped",
+            result: String(limit),
+            reason: `clamped to ${modelInfo.id}'s limit of ${limit} output tokens`,
+          });
+          params[key] = String(limit);
+          continue;
+        }
+      }
+      const { min, max } = spec;
+      if ((min !== undefined && num < min) || (max !== undefined && num > max)) {
+        const result = String(Math.min(max ?? Infinity, Math.max(min ?? -Infinity, num)));
+        edits.push({
+          param: key,
+          value,
+          kind: "clamped",
+          result,
+          reason: `clamped to ${subProvider ?? provider}'s range ${min ?? "-∞"}–${max ?? "∞"}`,
+        });
+        params[key] = result;
+        continue;
+      }
+    }
+    if (spec?.type === "string[]" && spec.maxItems !== undefined) {
+      const items = splitListValue(value);
+      if (items.length > spec.maxItems) {
+        const result = joinListValue(items.slice(0, spec.maxItems));
+        edits.push({
+          param: key,
+          value,
+          kind: "clamped",
+          result,
+          reason: `${subProvider ?? provider} accepts at most ${spec.maxItems} items; keeping the first ${spec.maxItems}`,
+        });
+        params[key] = result;
+        continue;
+      }
+    }
+    params[key] = value;
+  }
+
+  if (edits.length === 0) return { connectionString, config, edits };
+  const result = build({
+    host: config.host,
+    model: config.model,
+    label: config.label,
+    apiKey: config.apiKey,
+    params,
+  });
+  return { connectionString: result, config: parse(result), edits };
+}
@@ -1,8 +1,87 @@
-export { parse, build } from "./parse.js";
-export type { LlmConnectionConfig } from "./parse.js";
+export {
+  parse,
+  build,
+  splitListValue,
+  joinListValue,
+  splitConnectionStrings,
+  LIST_SEPARATOR,
+  LlmStringError,
+  safeParse,
+} from "./parse.js";
+export type {
+  LlmConnectionConfig,
+  LlmStringErrorCode,
+  SafeParseResult,
+  SecretRef,
+} from "./parse.js";
+
+export {
+  resolveSecrets,
+  parseSecretRef,
+  registerSecretResolver,
+  unregisterSecretResolver,
+  DEFAULT_SECRET_RESOLVERS,
+} from "./secrets.js";
+export type { SecretResolver } from "./secrets.js";
 
 export { normalize } from "./normalize.js";
-export type { NormalizeChange, NormalizeOptions, NormalizeResult } from "./normalize.js";
+export type {
+  GatewayRouting,
+  NormalizeChange,
+  NormalizeOptions,
+  NormalizeResult,
+  TypedLlmConnectionConfig,
+  TypedNormalizeResult,
+  TypedParamValue,
+} from "./normalize.js";
 
 export { validate } from "./validate.js";
 export type { ValidateOptions, ValidationIssue } from "./validate.js";
+
+export { redact } from "./redact.js";
+
+export { convert } from "./convert.js";
+export type { ConversionLoss, ConvertOptions, ConvertResult } from "./convert.js";
+
+export { fix } from "./fix.js";
+export type { FixEdit, FixOptions, FixResult, FixStrategy } from "./fix.js";
+
+export { toJsonSchema } from "./schema.js";
+export type { JsonSchema, ParamsJsonSchema, ToJsonSchemaOptions } from "./schema.js";
+
+export { merge } from "./merge.js";
+export type { MergeLayer, MergeResult, MergeSources } from "./merge.js";
+
+export {
+  parseChain,
+  validateChain,
+  FAILOVER_PARAM,
+  FAILOVER_CONDITIONS,
+  DEFAULT_FAILOVER_CONDITIONS,
+} from "./chain.js";
+export type { ChainEntry, ChainIssue, FailoverCondition } from "./chain.js";
+
+export { parseSplit, pick, validateSplit, WEIGHT_PARAM } from "./split.js";
+export type {
+  SplitInput,
+  SplitIssue,
+  SplitVariant,
+  SplitVariantInput,
+} from "./split.js";
+
+export { toRequestBody } from "./request.js";
+export type { RequestBody } from "./request.js";
+
+export { getModelInfo } from "./model-catalog.js";
+export type { ModelInfo } from "./model-catalog.js";
+
+export { registerPreset, unregisterPreset } from "./presets.js";
+export type { PresetDefinition } from "./presets.js";
+
+export { registerProvider, unregisterProvider } from "./provider-core.js";
+export type {
+  CustomProviders,
+  HostMatcher,
+  Provider,
+  ProviderDefinition,
+} from "./provider-core.js";
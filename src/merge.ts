@@ -0,0 +1,124 @@
+import {
+  LlmStringError,
+  build,
+  joinListValue,
+  parse,
+  type LlmConnectionConfig,
+} from "./parse.js";
+import { PROVIDER_PARAMS, detectProvider, resolveAlias } from "./provider-core.js";
+
+/**
+ * A partial config to merge. `null` removes a value set by an earlier layer;
+ * array param values are joined into a list value.
+ */
+export interface MergeLayer {
+  host?: string;
+  model?: string;
+  label?: string | null;
+  apiKey?: string | null;
+  params?: Record<string, string | string[] | null>;
+}
+
+/** Index of the layer each final value came from (0 is the base). */
+export interface MergeSources {
+  host: number;
+  model: number;
+  label?: number;
+  apiKey?: number;
+  params: Record<string, number>;
+}
+
+export interface MergeResult {
+  config: LlmConnectionConfig;
+  sources: MergeSources;
+}
+
+/** Prefix on a param name that removes it (`?-temp` in a string layer). */
+const REMOVE_PREFIX = "-";
+
+const FIELDS = ["host", "model", "label", "apiKey"] as const;
+
+/**
+ * Merge connection strings or partial configs, later layers winning.
+ *
+ * Params are resolved through `ALIASES` first, so `temp=0.9` overrides
+ * `temperature=0.2`; merged params use the canonical names. A provider's own
+ * param names win over aliases, going by the host merged so far. A later layer
+ * removes a param with a `null` value, or in a string layer by prefixing
+ * its name with `-` (`?-top_p`). `label` and `apiKey` can be removed with
+ * `null` too.
+ *
+ * `sources` records which layer each final value came from.
+ *
+ * @example
+ * ```ts
+ * const { config, sources } = merge(
+ *   "llm://api.openai.com/gpt-5.2?temperature=0.2&max=2000",
+ *   { params: { temp: "0.9" }, apiKey: secret },
+ * );
+ * // config.params → { temperature: "0.9", max_tokens: "2000" }
+ * // sources.params → { temperature: 1, max_tokens: 0 }
+ * ```
+ */
+export function merge(
+  base: string | MergeLayer,
+  ...overrides: (string | MergeLayer)[]
+): MergeResult {
+  const values: Partial<Record<(typeof FIELDS)[number], string>> = {};
+  const fieldSources: Partial<Record<(typeof FIELDS)[number], number>> = {};
+  const params: Record<string, string> = {};
+  const paramSources: Record<string, number> = {};
+
+  for (const [index, input] of [base, ...overrides].entries()) {
+    const layer: MergeLayer = typeof input === "string" ? parse(input) : input;
+
+    for (const field of FIELDS) {
+      const value = layer[field];
+      if (value === null) {
+        delete values[field];
+        delete fieldSources[field];
+      } else if (value !== undefined) {
+        values[field] = value;
+        fieldSources[field] = index;
+      }
+    }
+
+    const provider = values.host ? detectProvider(values.host) : undefined;
+    for (const [rawKey, value] of Object.entries(layer.params ?? {})) {
+      const remove = value === null || rawKey.startsWith(REMOVE_PREFIX);
+      const name = rawKey.startsWith(REMOVE_PREFIX)
+        ? rawKey.slice(REMOVE_PREFIX.length)
+        : rawKey;
+      const key = resolveAlias(name, provider && PROVIDER_PARAMS[provider]);
+      if (remove) {
+        delete params[key];
+        delete paramSources[key];
+      } else {
+        params[key] = Array.isArray(value) ? joinListValue(value) : value;
+        paramSources[key] = index;
+      }
+    }
+  }
+
+  const { host, model } = values;
+  if (!host) {
+    throw new LlmStringError("Cannot merge: no layer sets a host", "MISSING_HOST", 0);
+  }
+  if (!model) {
+    throw new LlmStringError("Cannot merge: no layer sets a model", "MISSING_MODEL", 0);
+  }
+
+  return {
+    // Round-trip through build/parse for a consistent raw string and apiKeyRef
+    config: parse(
+      build({ host, model, label: values.label, apiKey: values.apiKey, params }),
+    ),
+    sources: {
+      host: fieldSources.host ?? 0,
+      model: fieldSources.model ?? 0,
+      ...(fieldSources.label !== undefined && { label: fieldSources.label }),
+      ...(fieldSources.apiKey !== undefined && { apiKey: fieldSources.apiKey }),
+      params: paramSources,
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { MODEL_CATALOG, getModelInfo } from "./model-catalog.js";
+import { MODELS } from "./provider-meta.js";
+
+describe("getModelInfo", () => {
+  it("returns capabilities for a catalog model", () => {
+    expect(getModelInfo("anthropic", "claude-haiku-4-5")).toEqual({
+      id: "claude-haiku-4-5",
+      vendor: "anthropic",
+      contextWindow: 200000,
+      maxOutputTokens: 64000,
+      vision: true,
+      tools: true,
+      reasoning: true,
+      caching: true,
+      structuredOutput: true,
+    });
+  });
+
+  it("matches dated snapshots to their base model", () => {
+    expect(getModelInfo("anthropic", "claude-sonnet-4-5-20250929")?.id).toBe("claude-sonnet-4-5");
+    expect(getModelInfo("openai", "gpt-4.1-nano-2025-04-14")?.id).toBe("gpt-4.1-nano");
+    expect(getModelInfo("cohere", "command-r-plus-08-2024")?.id).toBe("command-r-plus");
+    expect(getModelInfo("mistral", "mistral-large-latest")?.id).toBe("mistral-large");
+    expect(getModelInfo("mistral", "mistral-small-2506")?.id).toBe("mistral-small");
+  });
+
+  it("matches variants by the longest catalog prefix", () => {
+    expect(getModelInfo("openai", "gpt-5.2-chat-latest")?.id).toBe("gpt-5.2");
+    expect(getModelInfo("openai", "gpt-4.1-mini")?.id).toBe("gpt-4.1-mini");
+    expect(getModelInfo("google", "gemini-3-pro-preview")?.id).toBe("gemini-3-pro");
+  });
+
+  it("does not match a newer version to an older entry", () => {
+    expect(getModelInfo("anthropic", "claude-sonnet-4-9")).toBeUndefined();
+  });
+
+  it("strips gateway, Vertex AI, and Bedrock model prefixes", () => {
+    expect(getModelInfo("openrouter", "anthropic/claude-opus-4-6")?.id).toBe("claude-opus-4-6");
+    expect(getModelInfo("vertex", "claude-sonnet-4-5@20250929")?.id).toBe("claude-sonnet-4-5");
+    expect(
+      getModelInfo("vertex", "publishers/google/models/gemini-2.5-pro")?.id,
+    ).toBe("gemini-2.5-pro");
+    expect(
+      getModelInfo("bedrock", "us.anthropic.claude-haiku-4-5-20251001-v1:0")?.id,
+    ).toBe("claude-haiku-4-5");
+    expect(getModelInfo("bedrock", "amazon.nova-pro-v1:0")?.vendor).toBe("amazon");
+    expect(getModelInfo("bedrock", "meta.llama3-70b-instruct-v1:0")?.maxOutputTokens).toBe(2048);
+  });
+
+  it("only matches models the provider serves", () => {
+    expect(getModelInfo("anthropic", "gpt-4.1")).toBeUndefined();
+    expect(getModelInfo("azure", "gpt-4.1")?.vendor).toBe("openai");
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(getModelInfo("openai", "my-finetune")).toBeUndefined();
+  });
+
+  it("covers the suggested models of the hosted vendors", () => {
+    for (const provider of ["openai", "anthropic", "google", "mistral", "cohere"] as const) {
+      for (const model of MODELS[provider]) {
+        expect(getModelInfo(provider, model), `${provider}/${model}`).toBeDefined();
+      }
+    }
+  });
+
+  it("has an output limit no larger than the context window", () => {
+    for (const [id, entry] of Object.entries(MODEL_CATALOG)) {
+      expect(entry.maxOutputTokens ?? 0, id).toBeLessThanOrEqual(entry.contextWindow);
+    }
+  });
+});
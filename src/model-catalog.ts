@@ -0,0 +1,195 @@
+import { detectBedrockModelFamily, type Provider } from "./provider-core.js";
+
+/** What a model can do, from the bundled capability catalog. */
+export interface ModelInfo {
+  /** Catalog key the model matched (e.g. "claude-sonnet-4-5" for "claude-sonnet-4-5-20250929"). */
+  id: string;
+  /** Who makes the model: a provider ID, or "amazon" / "meta" for Bedrock and Vertex AI models. */
+  vendor: string;
+  /** Total tokens (input + output) the model accepts. */
+  contextWindow: number;
+  /** Maximum output tokens per request, when the vendor publishes a separate limit. */
+  maxOutputTokens?: number;
+  /** Accepts image input. */
+  vision: boolean;
+  /** Supports tool / function calling. */
+  tools: boolean;
+  /** Supports reasoning effort / extended thinking. */
+  reasoning: boolean;
+  /** Supports prompt caching (explicit or automatic). */
+  caching: boolean;
+  /** Supports schema-constrained (structured) output. */
+  structuredOutput: boolean;
+}
+
+type CatalogEntry = Omit<ModelInfo, "id">;
+
+const OPENAI_GPT5: CatalogEntry = { vendor: "openai", contextWindow: 400000, maxOutputTokens: 128000, vision: true, tools: true, reasoning: true, caching: true, structuredOutput: true };
+const OPENAI_GPT41: CatalogEntry = { vendor: "openai", contextWindow: 1047576, maxOutputTokens: 32768, vision: true, tools: true, reasoning: false, caching: true, structuredOutput: true };
+const OPENAI_O_SERIES: CatalogEntry = { vendor: "openai", contextWindow: 200000, maxOutputTokens: 100000, vision: true, tools: true, reasoning: true, caching: true, structuredOutput: true };
+const CLAUDE: CatalogEntry = { vendor: "anthropic", contextWindow: 200000, maxOutputTokens: 64000, vision: true, tools: true, reasoning: true, caching: true, structuredOutput: true };
+const GEMINI: CatalogEntry = { vendor: "google", contextWindow: 1048576, maxOutputTokens: 65536, vision: true, tools: true, reasoning: true, caching: true, structuredOutput: true };
+const MISTRAL: CatalogEntry = { vendor: "mistral", contextWindow: 131072, vision: true, tools: true, reasoning: false, caching: false, structuredOutput: true };
+const COMMAND_R: CatalogEntry = { vendor: "cohere", contextWindow: 128000, maxOutputTokens: 4000, vision: false, tools: true, reasoning: false, caching: false, structuredOutput: true };
+const NOVA: CatalogEntry = { vendor: "amazon", contextWindow: 300000, maxOutputTokens: 10000, vision: true, tools: true, reasoning: false, caching: true, structuredOutput: false };
+
+/**
+ * Capabilities of well-known models, keyed by the vendor's model ID without
+ * snapshot suffixes. Not exhaustive — models missing here are simply not
+ * checked. Limits change as vendors ship updates; entries can be added or
+ * overridden by assigning to this object.
+ */
+export const MODEL_CATALOG: Record<string, CatalogEntry> = {
+  // OpenAI
+  "gpt-5.2":       OPENAI_GPT5,
+  "gpt-5.2-pro":   { ...OPENAI_GPT5, caching: false },
+  "gpt-5.1":       OPENAI_GPT5,
+  "gpt-5":         OPENAI_GPT5,
+  "gpt-5-mini":    OPENAI_GPT5,
+  "gpt-5-nano":    OPENAI_GPT5,
+  "gpt-4.1":       OPENAI_GPT41,
+  "gpt-4.1-mini":  OPENAI_GPT41,
+  "gpt-4.1-nano":  OPENAI_GPT41,
+  "gpt-4o":        { ...OPENAI_GPT41, contextWindow: 128000, maxOutputTokens: 16384 },
+  "gpt-4o-mini":   { ...OPENAI_GPT41, contextWindow: 128000, maxOutputTokens: 16384 },
+  "o1":            OPENAI_O_SERIES,
+  "o1-pro":        { ...OPENAI_O_SERIES, caching: false },
+  "o1-mini":       { ...OPENAI_O_SERIES, contextWindow: 128000, maxOutputTokens: 65536, vision: false, tools: false, structuredOutput: false },
+  "o1-preview":    { ...OPENAI_O_SERIES, contextWindow: 128000, maxOutputTokens: 32768, vision: false, tools: false, structuredOutput: false },
+  "o3":            OPENAI_O_SERIES,
+  "o3-pro":        { ...OPENAI_O_SERIES, caching: false },
+  "o3-mini":       { ...OPENAI_O_SERIES, vision: false },
+  "o4-mini":       OPENAI_O_SERIES,
+
+  // Anthropic
+  "claude-opus-4-6":   { ...CLAUDE, maxOutputTokens: 128000 },
+  "claude-sonnet-4-6": CLAUDE,
+  "claude-opus-4-5":   CLAUDE,
+  "claude-sonnet-4-5": CLAUDE,
+  "claude-haiku-4-5":  CLAUDE,
+  "claude-opus-4-1":   { ...CLAUDE, maxOutputTokens: 32000 },
+  "claude-opus-4":     { ...CLAUDE, maxOutputTokens: 32000, structuredOutput: false },
+  "claude-sonnet-4":   { ...CLAUDE, structuredOutput: false },
+  "claude-3-7-sonnet": { ...CLAUDE, structuredOutput: false },
+  "claude-3-5-haiku":  { ...CLAUDE, maxOutputTokens: 8192, vision: false, reasoning: false, structuredOutput: false },
+
+  // Google
+  "gemini-3-pro":          GEMINI,
+  "gemini-3-flash":        GEMINI,
+  "gemini-2.5-pro":        GEMINI,
+  "gemini-2.5-flash":      GEMINI,
+  "gemini-2.5-flash-lite": GEMINI,
+  "gemini-2.0-flash":      { ...GEMINI, maxOutputTokens: 8192, reasoning: false },
+
+  // Mistral (output shares the context window)
+  "mistral-large":    { ...MISTRAL, contextWindow: 262144 },
+  "mistral-medium":   MISTRAL,
+  "mistral-small":    MISTRAL,
+  "codestral":        { ...MISTRAL, contextWindow: 262144, vision: false },
+  "magistral-medium": { ...MISTRAL, reasoning: true },
+  "magistral-small":  { ...MISTRAL, reasoning: true },
+
+  // Cohere
+  "command-a":           { ...COMMAND_R, contextWindow: 256000, maxOutputTokens: 8000 },
+  "command-a-reasoning": { ...COMMAND_R, contextWindow: 256000, maxOutputTokens: 32000, reasoning: true },
+  "command-a-vision":    { ...COMMAND_R, maxOutputTokens: 8000, vision: true, tools: false },
+  "command-r-plus":      COMMAND_R,
+  "command-r":           COMMAND_R,
+  "command-r7b":         COMMAND_R,
+
+  // Amazon (Bedrock)
+  "nova-premier": { ...NOVA, contextWindow: 1000000, maxOutputTokens: 32000 },
+  "nova-pro":     NOVA,
+  "nova-lite":    NOVA,
+  "nova-micro":   { ...NOVA, contextWindow: 128000, vision: false },
+
+  // Meta (Bedrock)
+  "llama4-maverick-17b-instruct": { vendor: "meta", contextWindow: 1000000, maxOutputTokens: 8192, vision: true, tools: true, reasoning: false, caching: false, structuredOutput: false },
+  "llama3-3-70b-instruct":        { vendor: "meta", contextWindow: 128000, maxOutputTokens: 8192, vision: false, tools: true, reasoning: false, caching: false, structuredOutput: false },
+  "llama3-70b-instruct":          { vendor: "meta", contextWindow: 8192, maxOutputTokens: 2048, vision: false, tools: false, reasoning: false, caching: false, structuredOutput: false },
+};
+
+/** Vendors whose models each provider serves. Gateways and local runtimes serve anything. */
+const PROVIDER_VENDORS: Partial<Record<Provider, string[]>> = {
+  openai: ["openai"],
+  azure: ["openai"],
+  anthropic: ["anthropic"],
+  google: ["google"],
+  mistral: ["mistral"],
+  cohere: ["cohere"],
+  xai: ["xai"],
+  deepseek: ["deepseek"],
+  perplexity: ["perplexity"],
+  vertex: ["google", "anthropic", "mistral", "meta"],
+  bedrock: ["anthropic", "amazon", "meta", "mistral", "cohere"],
+};
+
+/**
+ * Snapshot and version suffixes: dates ("-20250929", "-2025-04-14",
+ * "-08-2024", "-2411"), Bedrock versions ("-v1:0"), and "-latest".
+ */
+const SNAPSHOT_RE = /-(?:\d{8}|\d{4}-\d{2}-\d{2}|\d{2}-\d{4}|\d{4}|v\d+(?::\d+)?|latest)$/;
+
+/** A continuation that names a different model version ("-5" in "claude-sonnet-4-5"). */
+const VERSION_CONTINUATION_RE = /^\d{1,2}(?:-|$)/;
+
+/** Reduce a provider's model string to a bare vendor model ID. */
+function bareModelId(provider: Provider, model: string): string {
+  // Gateway prefixes ("openai/") and Vertex resource names ("publishers/…/models/")
+  let id = model.slice(model.lastIndexOf("/") + 1);
+  // Vertex AI snapshots ("claude-sonnet-4-5@20250929")
+  const at = id.indexOf("@");
+  if (at !== -1) id = id.slice(0, at);
+  // Bedrock inference profile and vendor prefixes ("us.anthropic.")
+  if (provider === "bedrock") {
+    const family = detectBedrockModelFamily(id);
+    if (family) id = id.slice(id.indexOf(`${family}.`) + family.length + 1);
+  }
+  return id.toLowerCase();
+}
+
+function findCatalogKey(id: string): string | undefined {
+  let candidate = id;
+  while (!Object.hasOwn(MODEL_CATALOG, candidate)) {
+    const stripped = candidate.replace(SNAPSHOT_RE, "");
+    if (stripped === candidate) break;
+    candidate = stripped;
+  }
+  if (Object.hasOwn(MODEL_CATALOG, candidate)) return candidate;
+
+  // Longest catalog ID the model extends ("gpt-5.2-chat" → "gpt-5.2")
+  let best: string | undefined;
+  for (const key of Object.keys(MODEL_CATALOG)) {
+    if (
+      candidate.startsWith(`${key}-`) &&
+      !VERSION_CONTINUATION_RE.test(candidate.slice(key.length + 1)) &&
+      (best === undefined || key.length > best.length)
+    ) {
+      best = key;
+    }
+  }
+  return best;
+}
+
+/**
+ * Look up a model's capabilities in the bundled catalog. Accepts the model
+ * string as it appears in a connection string for that provider — gateway
+ * prefixes, Vertex AI resource names and `@` snapshots, and Bedrock
+ * inference profiles are stripped, and dated snapshots match their base
+ * model. Returns `undefined` for models the catalog doesn't know, or that
+ * the provider doesn't serve.
+ *
+ * @example
+ * ```ts
+ * getModelInfo("bedrock", "us.anthropic.claude-haiku-4-5-20251001-v1:0");
+ * // → { id: "claude-haiku-4-5", vendor: "anthropic", contextWindow: 200000, maxOutputTokens: 64000, … }
+ * ```
+ */
+export function getModelInfo(provider: Provider, model: string): ModelInfo | undefined {
+  const key = findCatalogKey(bareModelId(provider, model));
+  if (key === undefined) return undefined;
+  const entry = MODEL_CATALOG[key];
+  const vendors = PROVIDER_VENDORS[provider];
+  if (vendors && !vendors.includes(entry.vendor)) return undefined;
+  return { id: key, ...entry };
+}
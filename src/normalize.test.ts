@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { normalize } from "./normalize.js";
-import { parse } from "./index.js";
+import { parse, validate } from "./index.js";
 
 describe("normalize", () => {
   describe("alias expansion", () => {
@@ -70,6 +70,14 @@ describe("normalize", () => {
       expect(result.params).toEqual({ stop_sequences: "END" });
     });
 
+    it("accumulates list params given under several aliases", () => {
+      const config = parse(
+        "llm://api.anthropic.com/claude-sonnet-4-5?stop=END&stop_sequences=STOP",
+      );
+      const { config: result } = normalize(config);
+      expect(result.params).toEqual({ stop_sequences: "END,STOP" });
+    });
+
     it("maps seed → random_seed for Mistral", () => {
       const config = parse("llm://api.mistral.ai/mistral-large-latest?seed=42");
       const { config: result } = normalize(config);
@@ -98,6 +106,172 @@ describe("normalize", () => {
     });
   });
 
+  describe("structured output", () => {
+    it("keeps json and schema for OpenAI-style providers", () => {
+      const { config } = normalize(
+        parse("llm://api.openai.com/gpt-5.2?json_mode=true&json_schema={}"),
+      );
+      expect(config.params).toEqual({ json: "true", schema: "{}" });
+    });
+
+    it("maps json onto Gemini's responseMimeType", () => {
+      const { config, changes } = normalize(
+        parse("llm://generativelanguage.googleapis.com/gemini-2.5-pro?json=true&schema={}"),
+        { verbose: true },
+      );
+      expect(config.params).toEqual({
+        responseMimeType: "application/json",
+        responseSchema: "{}",
+      });
+      expect(changes[0]).toMatchObject({
+        from: "json",
+        to: "responseMimeType",
+        value: "application/json",
+      });
+
+      expect(
+        normalize(parse("llm://generativelanguage.googleapis.com/gemini-2.5-pro?json=false"))
+          .config.params,
+      ).toEqual({});
+    });
+  });
+
+  describe("effort translation", () => {
+    it("maps effort onto the closest level the provider accepts", () => {
+      const { config, changes } = normalize(
+        parse("llm://api.anthropic.com/claude-opus-4-6?effort=xhigh"),
+      );
+      expect(config.params).toEqual({ effort: "max" });
+      expect(changes).toEqual([
+        {
+          from: "effort",
+          to: "effort",
+          value: "max",
+          reason: 'effort "xhigh" → "max", the closest level anthropic accepts',
+        },
+      ]);
+
+      expect(
+        normalize(parse("llm://api.anthropic.com/claude-opus-4-6?effort=minimal")).config.params,
+      ).toEqual({ effort: "low" });
+      expect(
+        normalize(parse("llm://api.openai.com/gpt-5.2?reasoning=max")).config.params,
+      ).toEqual({ reasoning_effort: "xhigh" });
+    });
+
+    it("records no change for levels the provider accepts", () => {
+      const { config, changes } = normalize(
+        parse("llm://api.openai.com/gpt-5.2?effort=minimal"),
+      );
+      expect(config.params).toEqual({ reasoning_effort: "minimal" });
+      expect(changes).toEqual([]);
+    });
+
+    it("converts effort to a thinking budget for Gemini", () => {
+      const { config, changes } = normalize(
+        parse("llm://generativelanguage.googleapis.com/gemini-2.5-pro?effort=high"),
+      );
+      expect(config.params).toEqual({ thinkingBudget: "16384" });
+      expect(changes[0]).toMatchObject({ from: "effort", to: "thinkingBudget", value: "16384" });
+
+      expect(
+        normalize(parse("llm://generativelanguage.googleapis.com/gemini-2.5-pro?effort=none"))
+          .config.params,
+      ).toEqual({ thinkingBudget: "0" });
+    });
+
+    it("converts effort to a budget for Claude on Bedrock, within its minimum", () => {
+      const model = "us.anthropic.claude-sonnet-4-5-20250929-v1:0";
+      const host = "bedrock-runtime.us-east-1.amazonaws.com";
+      expect(normalize(parse(`llm://${host}/${model}?effort=minimal`)).config.params).toEqual({
+        budget_tokens: "1024",
+      });
+
+      const none = normalize(parse(`llm://${host}/${model}?effort=none`));
+      expect(none.config.params).toEqual({});
+      expect(none.changes[0]).toMatchObject({ from: "effort", to: "(dropped)" });
+
+      // Only Claude thinks on Bedrock
+      expect(
+        normalize(parse(`llm://${host}/us.meta.llama4-maverick-17b-instruct-v1:0?effort=high`))
+          .config.params,
+      ).toEqual({ effort: "high" });
+    });
+
+    it("lets an explicit thinking budget win over effort", () => {
+      const { config, changes } = normalize(
+        parse("llm://generativelanguage.googleapis.com/gemini-2.5-pro?effort=high&thinking=512"),
+      );
+      expect(config.params).toEqual({ thinkingBudget: "512" });
+      expect(changes[0]).toMatchObject({ from: "effort", to: "(dropped)", value: "high" });
+    });
+
+    it("leaves room for output in max_tokens", () => {
+      const host = "bedrock-runtime.us-east-1.amazonaws.com";
+      const model = "us.anthropic.claude-sonnet-4-5-20250929-v1:0";
+      const capped = `llm://${host}/${model}?effort=high&max=4000`;
+      expect(normalize(parse(capped)).config.params).toEqual({
+        budget_tokens: "2976",
+        maxTokens: "4000",
+      });
+      expect(validate(capped)).toEqual([]);
+
+      // No room for Bedrock's 1024-token minimum plus output
+      for (const max of ["100", "2000"]) {
+        const tight = `llm://${host}/${model}?effort=high&max=${max}`;
+        const { config, changes } = normalize(parse(tight));
+        expect(config.params).toEqual({ maxTokens: max });
+        expect(changes[0]).toMatchObject({ from: "effort", to: "(dropped)", value: "high" });
+        expect(validate(tight)).toEqual([]);
+      }
+
+      const gemini = "llm://generativelanguage.googleapis.com/gemini-2.5-pro";
+      expect(
+        normalize(parse(`${gemini}?maxOutputTokens=2000&effort=max`)).config.params,
+      ).toEqual({ maxOutputTokens: "2000", thinkingBudget: "976" });
+      expect(
+        normalize(parse(`${gemini}?maxOutputTokens=500&effort=max`)).config.params,
+      ).toEqual({ maxOutputTokens: "500" });
+    });
+
+    it("doesn't make Claude think with non-default sampling", () => {
+      const base =
+        "llm://bedrock-runtime.us-east-1.amazonaws.com/us.anthropic.claude-sonnet-4-5-20250929-v1:0?effort=high";
+      for (const [sampling, conflict] of [
+        ["temp=0.5", "temperature=0.5"],
+        ["topK=40", "top_k=40"],
+        ["top_p=0.9", "top_p=0.9"],
+      ]) {
+        const { config, changes } = normalize(parse(`${base}&${sampling}`));
+        expect(config.params).not.toHaveProperty("budget_tokens");
+        expect(changes).toContainEqual(
+          expect.objectContaining({ from: "effort", to: "(dropped)" }),
+        );
+        expect(changes.find((change) => change.from === "effort")?.reason).toContain(conflict);
+        expect(validate(`${base}&${sampling}`).filter((issue) => issue.severity === "error"))
+          .toEqual([]);
+      }
+
+      expect(normalize(parse(`${base}&temp=1&top_p=0.95`)).config.params).toMatchObject({
+        budget_tokens: "16384",
+      });
+    });
+
+    it("doesn't translate effort for models that can't think", () => {
+      const { config, changes } = normalize(
+        parse("llm://generativelanguage.googleapis.com/gemini-2.0-flash?effort=high"),
+      );
+      expect(config.params).toEqual({ effort: "high" });
+      expect(changes[0].reason).toContain("doesn't support thinking");
+    });
+
+    it("leaves unknown effort values for validate() to report", () => {
+      expect(
+        normalize(parse("llm://api.anthropic.com/claude-opus-4-6?effort=extreme")).config.params,
+      ).toEqual({ effort: "extreme" });
+    });
+  });
+
   describe("cache normalization", () => {
     it("maps cache=true → cache_control=ephemeral for Anthropic", () => {
       const config = parse(
@@ -209,6 +383,24 @@ describe("normalize", () => {
       expect(result.params).toEqual({});
     });
 
+    it("exposes the region and inference profile", () => {
+      const result = normalize(
+        parse(
+          "llm://bedrock-runtime.eu-west-1.amazonaws.com/eu.anthropic.claude-sonnet-4-5-20250929-v1:0",
+        ),
+      );
+      expect(result.region).toBe("eu-west-1");
+      expect(result.inferenceProfile).toBe("eu");
+    });
+
+    it("leaves inferenceProfile undefined for base model IDs", () => {
+      const result = normalize(
+        parse("llm://bedrock-runtime.us-east-1.amazonaws.com/amazon.nova-lite-v1:0"),
+      );
+      expect(result.region).toBe("us-east-1");
+      expect(result.inferenceProfile).toBeUndefined();
+    });
+
     it("normalizes a full Bedrock connection string", () => {
       const config = parse(
         "llm://bedrock-runtime.us-east-1.amazonaws.com/amazon.nova-lite-v1:0?temp=0.5&max=500&top_p=0.9",
@@ -260,6 +452,33 @@ describe("normalize", () => {
       const { config: result } = normalize(config);
       expect(result.params).toEqual({});
     });
+
+    it("reports routing params as the routing decision", () => {
+      const config = parse(
+        "llm://openrouter.ai/anthropic/claude-sonnet-4-5?order=anthropic,amazon-bedrock&allowFallbacks=false&data_collection=deny&fallback_models=openai/gpt-5.2&transforms=middle-out",
+      );
+      const { config: result, routing } = normalize(config);
+      expect(result.params).toEqual({
+        provider_order: "anthropic,amazon-bedrock",
+        allow_fallbacks: "false",
+        data_collection: "deny",
+        models: "openai/gpt-5.2",
+        transforms: "middle-out",
+      });
+      expect(routing).toEqual({
+        order: ["anthropic", "amazon-bedrock"],
+        allowFallbacks: false,
+        dataCollection: "deny",
+        models: ["openai/gpt-5.2"],
+        transforms: ["middle-out"],
+      });
+    });
+
+    it("leaves routing unset without routing params", () => {
+      expect(
+        normalize(parse("llm://openrouter.ai/anthropic/claude-sonnet-4-5?temp=0.7")).routing,
+      ).toBeUndefined();
+    });
   });
 
   describe("Vercel AI Gateway", () => {
@@ -286,6 +505,13 @@ describe("normalize", () => {
       expect(result.params).toEqual({ top_k: "40" });
     });
 
+    it("reports provider order and fallback models", () => {
+      const { routing } = normalize(
+        parse("llm://gateway.ai.vercel.sh/anthropic/claude-sonnet-4-5?provider_order=bedrock,anthropic&models=openai/gpt-5.2"),
+      );
+      expect(routing).toEqual({ order: ["bedrock", "anthropic"], models: ["openai/gpt-5.2"] });
+    });
+
     it("returns undefined subProvider for unknown prefix", () => {
       const config = parse(
         "llm://gateway.ai.vercel.sh/qwen/qwen2.5-pro?temp=0.7",
@@ -353,6 +579,237 @@ describe("normalize", () => {
     });
   });
 
+  describe("Azure OpenAI", () => {
+    it("exposes resource and deployment", () => {
+      const config = parse(
+        "llm://contoso.openai.azure.com/prod-gpt-4-1?api-version=2025-04-01-preview&temp=0.7",
+      );
+      const result = normalize(config);
+      expect(result.provider).toBe("azure");
+      expect(result.resource).toBe("contoso");
+      expect(result.deployment).toBe("prod-gpt-4-1");
+      expect(result.config.params).toEqual({
+        "api-version": "2025-04-01-preview",
+        temperature: "0.7",
+      });
+    });
+
+    it("expands apiVersion alias", () => {
+      const config = parse(
+        "llm://contoso.openai.azure.com/gpt-4.1?apiVersion=2025-04-01-preview",
+      );
+      const { config: result } = normalize(config);
+      expect(result.params).toEqual({ "api-version": "2025-04-01-preview" });
+    });
+
+    it("remaps max_tokens for reasoning deployments", () => {
+      const config = parse(
+        "llm://contoso.openai.azure.com/prod-o3-mini?api-version=2025-04-01-preview&max=4096",
+      );
+      const { config: result } = normalize(config);
+      expect(result.params.max_completion_tokens).toBe("4096");
+    });
+
+    it("omits Azure fields for other providers", () => {
+      const result = normalize(parse("llm://api.openai.com/gpt-5.2"));
+      expect(result).not.toHaveProperty("resource");
+      expect(result).not.toHaveProperty("deployment");
+    });
+  });
+
+  describe("Vertex AI", () => {
+    it("uses Gemini params and exposes region and project", () => {
+      const config = parse(
+        "llm://us-central1-aiplatform.googleapis.com/gemini-2.5-pro?project=my-proj&max=1000&topp=0.9",
+      );
+      const result = normalize(config);
+      expect(result.provider).toBe("vertex");
+      expect(result.subProvider).toBe("google");
+      expect(result.region).toBe("us-central1");
+      expect(result.project).toBe("my-proj");
+      expect(result.config.params).toEqual({
+        project: "my-proj",
+        maxOutputTokens: "1000",
+        topP: "0.9",
+      });
+    });
+
+    it("uses Anthropic params and caching for Claude", () => {
+      const config = parse(
+        "llm://us-east5-aiplatform.googleapis.com/claude-sonnet-4-5@20250929?projectId=my-proj&stop=END&cache=1h",
+      );
+      const result = normalize(config);
+      expect(result.subProvider).toBe("anthropic");
+      expect(result.config.params).toEqual({
+        project: "my-proj",
+        stop_sequences: "END",
+        cache_control: "ephemeral",
+        cache_ttl: "1h",
+      });
+    });
+
+    it("takes the location param on the global endpoint", () => {
+      const config = parse(
+        "llm://aiplatform.googleapis.com/gemini-2.5-pro?project=p&location=europe-west4",
+      );
+      expect(normalize(config).region).toBe("europe-west4");
+      expect(
+        normalize(parse("llm://aiplatform.googleapis.com/gemini-2.5-pro")).region,
+      ).toBe("global");
+    });
+
+    it("uses OpenAI-compatible params for other publishers", () => {
+      const config = parse(
+        "llm://us-central1-aiplatform.googleapis.com/publishers/meta/models/llama-4-maverick-17b-128e-instruct-maas?max=500",
+      );
+      const result = normalize(config);
+      expect(result.subProvider).toBeUndefined();
+      expect(result.config.params).toEqual({ max_tokens: "500" });
+    });
+  });
+
+  describe("local runtimes", () => {
+    it("maps Ollama native option names", () => {
+      const config = parse(
+        "llm://localhost:11434/llama3.3?temp=0.7&max=512&num_ctx=8192&repeat_penalty=1.2&minp=0.05",
+      );
+      const { config: result, provider } = normalize(config);
+      expect(provider).toBe("ollama");
+      expect(result.params).toEqual({
+        temperature: "0.7",
+        num_predict: "512",
+        num_ctx: "8192",
+        repeat_penalty: "1.2",
+        min_p: "0.05",
+      });
+    });
+
+    it("maps repeat_penalty → repetition_penalty for vLLM", () => {
+      const config = parse(
+        "llm://localhost:8000/Qwen/Qwen3-32B?repeat_penalty=1.1&topk=20",
+      );
+      const { config: result, provider } = normalize(config);
+      expect(provider).toBe("vllm");
+      expect(result.params).toEqual({ repetition_penalty: "1.1", top_k: "20" });
+    });
+
+    it("keeps vLLM's own repetition_penalty instead of aliasing it to frequency_penalty", () => {
+      const input = "llm://localhost:8000/m?repetition_penalty=1.1";
+      const { config: result } = normalize(parse(input));
+      expect(result.params).toEqual({ repetition_penalty: "1.1" });
+      expect(validate(input)).toEqual([]);
+
+      // Still an alias where the provider has no param of that name
+      const { config: openai } = normalize(
+        parse("llm://api.openai.com/gpt-5.2?repetition_penalty=0.5"),
+      );
+      expect(openai.params).toEqual({ frequency_penalty: "0.5" });
+    });
+
+    it("keeps Together's own repetition_penalty", () => {
+      const input =
+        "llm://api.together.xyz/meta-llama/Llama-3.3-70B-Instruct-Turbo?repetition_penalty=1.1";
+      const { config: result, provider } = normalize(parse(input));
+      expect(provider).toBe("together");
+      expect(result.params).toEqual({ repetition_penalty: "1.1" });
+      expect(validate(input)).toEqual([]);
+    });
+
+    it("keeps Fireworks' own repetition_penalty and checks it against its range", () => {
+      const model = "accounts/fireworks/models/llama-v3p3-70b-instruct";
+      const { config: result, provider } = normalize(
+        parse(`llm://api.fireworks.ai/${model}?repetition_penalty=1.1`),
+      );
+      expect(provider).toBe("fireworks");
+      expect(result.params).toEqual({ repetition_penalty: "1.1" });
+
+      const issues = validate(`llm://api.fireworks.ai/${model}?repetition_penalty=2.5`);
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ param: "repetition_penalty" });
+    });
+
+    it("uses the provider hint and drops it from params", () => {
+      const config = parse(
+        "llm://inference.internal:9000/my-model?llm_provider=vllm&temp=0.2",
+      );
+      const { config: result, provider, changes } = normalize(config, {
+        verbose: true,
+      });
+      expect(provider).toBe("vllm");
+      expect(result.params).toEqual({ temperature: "0.2" });
+      expect(changes[0]).toMatchObject({ from: "llm_provider", to: "(dropped)" });
+    });
+
+    it("leaves OpenRouter's own provider param alone", () => {
+      const { config: result, provider } = normalize(
+        parse("llm://openrouter.ai/anthropic/claude-sonnet-4-5?provider=anthropic"),
+      );
+      expect(provider).toBe("openrouter");
+      expect(result.params).toEqual({ provider: "anthropic" });
+    });
+  });
+
+  describe("presets", () => {
+    it("expands deterministic with a seed on OpenAI", () => {
+      const { config } = normalize(parse("llm://api.openai.com/gpt-5.2?preset=deterministic"));
+      expect(config.params).toEqual({ temperature: "0", seed: "42" });
+    });
+
+    it("expands deterministic without a seed on Anthropic", () => {
+      const { config } = normalize(
+        parse("llm://api.anthropic.com/claude-sonnet-4-5?preset=deterministic"),
+      );
+      expect(config.params).toEqual({ temperature: "0" });
+    });
+
+    it("maps preset params to provider-specific names", () => {
+      const { config } = normalize(
+        parse("llm://api.mistral.ai/mistral-large-latest?preset=deterministic"),
+      );
+      expect(config.params).toEqual({ temperature: "0", random_seed: "42" });
+    });
+
+    it("uses the sub-provider's bundle behind a gateway", () => {
+      const { config } = normalize(
+        parse("llm://openrouter.ai/anthropic/claude-sonnet-4-5?preset=creative"),
+      );
+      expect(config.params).toEqual({ temperature: "1" });
+    });
+
+    it("lets explicit params override preset values, including aliases", () => {
+      const { config } = normalize(
+        parse("llm://api.openai.com/gpt-5.2?preset=deterministic&temp=0.2"),
+      );
+      expect(config.params).toEqual({ temperature: "0.2", seed: "42" });
+    });
+
+    it("applies later presets over earlier ones", () => {
+      const { config } = normalize(
+        parse("llm://api.openai.com/gpt-5.2?preset=deterministic,balanced"),
+      );
+      expect(config.params).toEqual({ temperature: "0.7", seed: "42" });
+    });
+
+    it("logs each expansion in verbose mode", () => {
+      const { changes } = normalize(
+        parse("llm://api.anthropic.com/claude-sonnet-4-5?preset=deterministic,nope"),
+        { verbose: true },
+      );
+      expect(changes).toContainEqual({
+        from: "preset",
+        to: "temperature",
+        value: "0",
+        reason: 'preset "deterministic" → temperature=0',
+      });
+      expect(changes).toContainEqual({
+        from: "preset",
+        to: "(dropped)",
+        value: "nope",
+        reason: 'unknown preset "nope"',
+      });
+    });
+  });
+
   describe("verbose mode", () => {
     it("returns changes when verbose is true", () => {
       const config = parse(
@@ -373,6 +830,61 @@ describe("normalize", () => {
     });
   });
 
+  describe("typed mode", () => {
+    it("coerces numbers, booleans and string arrays from ParamSpec types", () => {
+      const config = parse(
+        "llm://api.anthropic.com/claude-sonnet-4-5?temp=0.7&max=2000&stream=true&stop=END&effort=high",
+      );
+      const { config: result, changes } = normalize(config, { typed: true });
+      expect(result.params).toEqual({
+        temperature: 0.7,
+        max_tokens: 2000,
+        stream: true,
+        stop_sequences: ["END"],
+        effort: "high",
+      });
+      expect(changes).toEqual([]);
+    });
+
+    it("coerces provider-specific keys after mapping", () => {
+      const config = parse(
+        "llm://generativelanguage.googleapis.com/gemini-2.5-pro?max=1500&topk=40&stream=0",
+      );
+      const { config: result } = normalize(config, { typed: true });
+      expect(result.params).toEqual({
+        maxOutputTokens: 1500,
+        topK: 40,
+        stream: false,
+      });
+    });
+
+    it("splits list params into arrays", () => {
+      const config = parse(
+        "llm://api.anthropic.com/claude-sonnet-4-5?stop=END&stop=%23%23%23",
+      );
+      const { config: result } = normalize(config, { typed: true });
+      expect(result.params).toEqual({ stop_sequences: ["END", "###"] });
+    });
+
+    it("keeps uncoercible values as strings and reports them", () => {
+      const config = parse(
+        "llm://api.openai.com/gpt-5.2?temp=hot&stream=yes",
+      );
+      const { config: result, changes } = normalize(config, { typed: true });
+      expect(result.params).toEqual({ temperature: "hot", stream: "yes" });
+      expect(changes).toHaveLength(2);
+      expect(changes[0]).toMatchObject({ from: "temperature", value: "hot" });
+      expect(changes[0].reason).toContain("number");
+      expect(changes[1].reason).toContain("boolean");
+    });
+
+    it("leaves params as strings for unknown providers", () => {
+      const config = parse("llm://custom-api.example.com/my-model?temp=0.5");
+      const { config: result } = normalize(config, { typed: true });
+      expect(result.params).toEqual({ temperature: "0.5" });
+    });
+  });
+
   describe("passthrough", () => {
     it("passes through already-canonical params unchanged", () => {
       const config = parse(
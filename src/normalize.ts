@@ -1,18 +1,40 @@
-import type { LlmConnectionConfig } from "./parse.js";
 import {
-  ALIASES,
+  LIST_SEPARATOR,
+  splitListValue,
+  type LlmConnectionConfig,
+} from "./parse.js";
+import { getModelInfo } from "./model-catalog.js";
+import {
   CACHE_TTLS,
   CACHE_VALUES,
   DURATION_RE,
-  PROVIDER_PARAMS,
+  EFFORT_THINKING_BUDGETS,
+  PROVIDER_HINT,
+  THINKING_OUTPUT_RESERVE,
   bedrockSupportsCaching,
-  canHostOpenAIModels,
+  claudeThinkingConflict,
+  detectAzureResource,
+  detectBedrockInferenceProfile,
+  detectBedrockModelFamily,
+  detectBedrockRegion,
   detectGatewaySubProvider,
   detectProvider,
+  detectVertexLocation,
+  detectVertexPublisher,
+  effortThinkingBudget,
   isGatewayProvider,
-  isReasoningModel,
+  isReasoningTarget,
+  mapEffort,
+  paramMapFor,
+  paramSpecsFor,
+  resolveAlias,
+  type BedrockInferenceProfile,
+  type ParamSpec,
   type Provider,
 } from "./provider-core.js";
+import { PRESET_PARAM, expandPreset } from "./presets.js";
+import { withSafeSerialization } from "./redact.js";
+import { JSON_MIME_TYPE } from "./structured-output.js";
 
 export interface NormalizeChange {
   from: string;
@@ -21,47 +43,415 @@ export interface NormalizeChange {
   reason: string;
 }
 
+/** How a gateway routes the request, from its routing params. */
+export interface GatewayRouting {
+  /** Providers to try, in order, as gateway slugs (e.g. "anthropic", "amazon-bedrock"). */
+  order?: string[];
+  /** Whether the gateway may use providers outside `order` (OpenRouter). */
+  allowFallbacks?: boolean;
+  /** "deny" limits routing to providers that don't store or train on prompts (OpenRouter). */
+  dataCollection?: string;
+  /** Models to fall back to, in order, when the primary model fails. */
+  models?: string[];
+  /** Prompt transforms, e.g. "middle-out" (OpenRouter). */
+  transforms?: string[];
+}
+
 export interface NormalizeResult {
   config: LlmConnectionConfig;
   provider: Provider | undefined;
-  /** Underlying provider extracted from gateway model prefix (e.g. "anthropic" from "anthropic/claude-sonnet-4-5"). */
+  /**
+   * Underlying provider extracted from gateway model prefix (e.g. "anthropic" from "anthropic/claude-sonnet-4-5"),
+   * or the model's publisher on Vertex AI (e.g. "anthropic" from "claude-sonnet-4-5@20250929").
+   */
   subProvider: Provider | undefined;
+  /** Cloud region/location from the host (Bedrock region, e.g. "us-east-1", or Vertex AI location, e.g. "us-central1"). */
+  region?: string;
+  /** Bedrock cross-region inference profile prefix from the model ID (e.g. "us" from "us.anthropic.claude-…"). */
+  inferenceProfile?: BedrockInferenceProfile;
+  /** Google Cloud project ID from the `project` param (Vertex AI). */
+  project?: string;
+  /** Azure OpenAI resource name, from the host (e.g. "my-resource" from "my-resource.openai.azure.com"). */
+  resource?: string;
+  /** Azure OpenAI deployment name — the model segment of an Azure connection string. */
+  deployment?: string;
+  /** Gateway routing from `provider_order`, `models` and related params (OpenRouter, Vercel). */
+  routing?: GatewayRouting;
   changes: NormalizeChange[];
 }
 
 export interface NormalizeOptions {
   /** Include detailed change log in the result. */
   verbose?: boolean;
+  /**
+   * Coerce param values to the types declared in the provider's ParamSpec
+   * (numbers, booleans, string arrays). Values that can't be coerced are kept
+   * as strings and reported in `changes`, even when `verbose` is off.
+   */
+  typed?: boolean;
+}
+
+/** A param value after typed coercion. */
+export type TypedParamValue = string | number | boolean | string[];
+
+/** Connection config whose params have been coerced to their spec types. */
+export interface TypedLlmConnectionConfig
+  extends Omit<LlmConnectionConfig, "params"> {
+  params: Record<string, TypedParamValue>;
+}
+
+export interface TypedNormalizeResult extends Omit<NormalizeResult, "config"> {
+  config: TypedLlmConnectionConfig;
+}
+
+/**
+ * Coerce a string value to its spec type.
+ * Returns undefined when the value doesn't fit the declared type.
+ */
+function coerceParamValue(
+  value: string,
+  spec: ParamSpec,
+): TypedParamValue | undefined {
+  switch (spec.type) {
+    case "number": {
+      const num = Number(value);
+      return value.trim() === "" || isNaN(num) ? undefined : num;
+    }
+    case "boolean":
+      if (value === "true" || value === "1") return true;
+      if (value === "false" || value === "0") return false;
+      return undefined;
+    case "string[]":
+      return splitListValue(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Coerce normalized params using the provider's ParamSpecs. Params without a
+ * spec (or with an unknown provider) stay strings.
+ */
+function coerceParams(
+  params: Record<string, string>,
+  specs: Record<string, ParamSpec> | undefined,
+  changes: NormalizeChange[],
+): Record<string, TypedParamValue> {
+  const typed: Record<string, TypedParamValue> = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    const spec = specs?.[key];
+    if (!spec) {
+      typed[key] = value;
+      continue;
+    }
+    const coerced = coerceParamValue(value, spec);
+    if (coerced === undefined) {
+      changes.push({
+        from: key,
+        to: key,
+        value,
+        reason: `could not coerce "${value}" to ${spec.type}; kept as string`,
+      });
+      typed[key] = value;
+      continue;
+    }
+    typed[key] = coerced;
+  }
+
+  return typed;
+}
+
+/**
+ * Vertex AI location: regional hosts name it, the global host defers to a
+ * `location` param.
+ */
+function vertexRegion(host: string, locationParam?: string): string | undefined {
+  const location = detectVertexLocation(host);
+  return location === "global" ? (locationParam ?? location) : location;
+}
+
+/**
+ * Collect a gateway's routing params into a `GatewayRouting`, or `undefined`
+ * when none are set.
+ */
+function gatewayRouting(
+  params: Record<string, string>,
+  paramMap: Record<string, string>,
+): GatewayRouting | undefined {
+  const get = (canonical: string) => {
+    const key = paramMap[canonical];
+    return key === undefined ? undefined : params[key];
+  };
+  const routing: GatewayRouting = {};
+
+  const order = get("provider_order");
+  if (order !== undefined) routing.order = splitListValue(order);
+  const allowFallbacks = get("allow_fallbacks");
+  if (allowFallbacks === "true" || allowFallbacks === "1") routing.allowFallbacks = true;
+  if (allowFallbacks === "false" || allowFallbacks === "0") routing.allowFallbacks = false;
+  const dataCollection = get("data_collection");
+  if (dataCollection !== undefined) routing.dataCollection = dataCollection;
+  const models = get("models");
+  if (models !== undefined) routing.models = splitListValue(models);
+  const transforms = get("transforms");
+  if (transforms !== undefined) routing.transforms = splitListValue(transforms);
+
+  return Object.keys(routing).length > 0 ? routing : undefined;
+}
+
+/**
+ * Translate a canonical `effort` value into the provider's vocabulary: the
+ * closest level it accepts, or a thinking budget for providers that only
+ * take budgets. Budgets leave room for output in `maxTokens`, models that
+ * can't think keep `effort` as written, and Claude drops it when `sampling`
+ * rules thinking out. Returns the provider-specific param to set, or
+ * `undefined` to drop it. Approximations are always recorded in `changes`.
+ */
+function translateEffort(
+  value: string,
+  provider: Provider,
+  model: string,
+  paramMap: Record<string, string>,
+  specs: Record<string, ParamSpec>,
+  explicitThinking: boolean,
+  maxTokens: number | undefined,
+  sampling: Partial<Record<"temperature" | "top_p" | "top_k", string>>,
+  changes: NormalizeChange[],
+): { key: string; value: string } | undefined {
+  const effortKey = paramMap.effort;
+  const accepted = effortKey ? specs[effortKey]?.values : undefined;
+  if (effortKey) {
+    if (!accepted || accepted.includes(value)) return { key: effortKey, value };
+    const mapped = mapEffort(value, accepted);
+    if (mapped === undefined) return { key: effortKey, value };
+    changes.push({
+      from: "effort",
+      to: effortKey,
+      value: mapped,
+      reason: `effort "${value}" → "${mapped}", the closest level ${provider} accepts`,
+    });
+    return { key: effortKey, value: mapped };
+  }
+
+  // Budget-only providers; on Bedrock only Claude thinks
+  const thinkingKey = paramMap.thinking;
+  if (!thinkingKey || !Object.hasOwn(EFFORT_THINKING_BUDGETS, value)) {
+    return { key: "effort", value };
+  }
+  const claude =
+    provider === "anthropic" ||
+    (provider === "bedrock" && detectBedrockModelFamily(model) === "anthropic");
+  const canThink =
+    (provider !== "bedrock" || claude) && getModelInfo(provider, model)?.reasoning !== false;
+  if (!canThink) {
+    changes.push({
+      from: "effort",
+      to: "effort",
+      value,
+      reason: `"${model}" doesn't support thinking; effort is not translated to ${thinkingKey}`,
+    });
+    return { key: "effort", value };
+  }
+  if (explicitThinking) {
+    changes.push({
+      from: "effort",
+      to: "(dropped)",
+      value,
+      reason: `${provider} takes a thinking budget, and one is set explicitly`,
+    });
+    return undefined;
+  }
+  // Claude only thinks with default sampling
+  const conflict = claude ? claudeThinkingConflict(sampling) : undefined;
+  if (conflict) {
+    changes.push({
+      from: "effort",
+      to: "(dropped)",
+      value,
+      reason: `${provider} can't think with ${conflict}; effort is not translated to ${thinkingKey}`,
+    });
+    return undefined;
+  }
+
+  const spec = specs[thinkingKey];
+  const level = value as keyof typeof EFFORT_THINKING_BUDGETS;
+  const budget = effortThinkingBudget(level, spec, maxTokens);
+  if (budget === undefined) {
+    changes.push({
+      from: "effort",
+      to: "(dropped)",
+      value,
+      reason:
+        EFFORT_THINKING_BUDGETS[level] === 0
+          ? `effort "none": ${provider} thinking stays off`
+          : `max_tokens=${maxTokens} leaves no room for ${provider}'s minimum thinking budget of ${spec?.min}`,
+    });
+    return undefined;
+  }
+  // The budget comes out of max_tokens
+  const capped = maxTokens !== undefined && budget === maxTokens - THINKING_OUTPUT_RESERVE;
+  changes.push({
+    from: "effort",
+    to: thinkingKey,
+    value: String(budget),
+    reason:
+      `${provider} takes a thinking budget instead of effort: effort=${value} → ${thinkingKey}=${budget}` +
+      (capped ? `, leaving ${THINKING_OUTPUT_RESERVE} of max_tokens for output` : ""),
+  });
+  return { key: thinkingKey, value: String(budget) };
+}
+
+/**
+ * Replace the `preset` param with the canonical params its presets expand to.
+ * Explicit params win over preset ones, later presets over earlier ones, and
+ * params the provider doesn't support are dropped.
+ */
+function expandPresets(
+  params: Record<string, string>,
+  provider: Provider | undefined,
+  paramMap: Record<string, string> | undefined,
+  changes: NormalizeChange[],
+  verbose: boolean | undefined,
+): Record<string, string> {
+  const names = params[PRESET_PARAM];
+  if (names === undefined) return params;
+
+  const explicit = new Set(
+    Object.keys(params).map((key) => resolveAlias(key, paramMap)),
+  );
+  const expanded: Record<string, string> = {};
+
+  for (const name of splitListValue(names)) {
+    const bundle = expandPreset(name, provider);
+    if (!bundle) {
+      if (verbose) {
+        changes.push({
+          from: PRESET_PARAM,
+          to: "(dropped)",
+          value: name,
+          reason: `unknown preset "${name}"`,
+        });
+      }
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(bundle)) {
+      let to = key;
+      let reason = `preset "${name}" → ${key}=${value}`;
+      if (explicit.has(key)) {
+        to = "(dropped)";
+        reason = `preset "${name}": ${key} is set explicitly`;
+      } else if (paramMap && !Object.hasOwn(paramMap, key)) {
+        to = "(dropped)";
+        reason = `preset "${name}": ${provider} does not support ${key}`;
+      } else {
+        expanded[key] = value;
+      }
+      if (verbose) {
+        changes.push({ from: PRESET_PARAM, to, value, reason });
+      }
+    }
+  }
+
+  const rest = { ...params };
+  delete rest[PRESET_PARAM];
+  return { ...expanded, ...rest };
 }
 
 /**
  * Normalize an LLM connection config's params for its target provider.
  *
+ * 0. Detects the provider from the host, or from an `llm_provider=` hint param,
+ *    and expands `preset=` params into the canonical params they stand for
  * 1. Expands shorthand aliases (e.g. `temp` → `temperature`)
  * 2. Maps canonical param names to provider-specific names
  *    (e.g. `max_tokens` → `maxOutputTokens` for Google)
  * 3. Normalizes special values (e.g. `cache=true` → `cache_control=ephemeral` for Anthropic)
+ *    and translates `effort` levels into the provider's vocabulary (`xhigh` →
+ *    `max` for Anthropic), or into a thinking budget for providers without an
+ *    effort param (Gemini, Claude on Bedrock). These approximations are
+ *    recorded in `changes` even when `verbose` is off
  * 4. For OpenAI reasoning models, remaps `max_tokens` → `max_completion_tokens`
  *    and warns about unsupported sampling params
+ * 5. With `typed: true`, coerces values to their ParamSpec types
  */
+export function normalize(
+  config: LlmConnectionConfig,
+  options: NormalizeOptions & { typed: true },
+): TypedNormalizeResult;
+export function normalize(
+  config: LlmConnectionConfig,
+  options?: NormalizeOptions,
+): NormalizeResult;
 export function normalize(
   config: LlmConnectionConfig,
   options: NormalizeOptions = {},
-): NormalizeResult {
-  const provider = detectProvider(config.host);
-  const subProvider =
-    provider && isGatewayProvider(provider)
+): NormalizeResult | TypedNormalizeResult {
+  const provider = detectProvider(config.host, config.params[PROVIDER_HINT]);
+  const subProvider = !provider
+    ? undefined
+    : isGatewayProvider(provider)
       ? detectGatewaySubProvider(config.model)
-      : undefined;
+      : provider === "vertex"
+        ? detectVertexPublisher(config.model)
+        : undefined;
+  // Vertex AI speaks the publisher's native dialect; gateways speak their own
+  const nativeProvider =
+    provider === "vertex" ? (subProvider ?? provider) : provider;
+  const paramMap = provider ? paramMapFor(provider, subProvider) : undefined;
+  const specs = provider ? paramSpecsFor(provider, subProvider) : undefined;
   const changes: NormalizeChange[] = [];
   const params: Record<string, string> = {};
 
-  for (const [rawKey, value] of Object.entries(config.params)) {
+  // Presets are keyed by the provider whose dialect the request speaks
+  const input = expandPresets(
+    config.params,
+    subProvider ?? provider,
+    paramMap,
+    changes,
+    options.verbose,
+  );
+
+  const explicitThinking = Object.keys(input).some(
+    (key) =>
+      resolveAlias(key, paramMap) === "thinking" ||
+      key === paramMap?.thinking,
+  );
+  /** Value of a canonical param in the input, under any of its names. */
+  const inputValue = (canonical: string) =>
+    Object.entries(input).find(
+      ([key]) => resolveAlias(key, paramMap) === canonical || key === paramMap?.[canonical],
+    )?.[1];
+  // A generated thinking budget has to fit in max_tokens
+  const maxTokensValue = inputValue("max_tokens");
+  const maxTokens =
+    maxTokensValue === undefined ||
+    maxTokensValue.trim() === "" ||
+    Number.isNaN(Number(maxTokensValue))
+      ? undefined
+      : Number(maxTokensValue);
+
+  for (const [rawKey, rawValue] of Object.entries(input)) {
     let key = rawKey;
+    let value = rawValue;
+
+    // The provider hint only selects the provider; it's not an API param
+    if (key === PROVIDER_HINT) {
+      if (options.verbose) {
+        changes.push({
+          from: key,
+          to: "(dropped)",
+          value,
+          reason: `provider hint: "${value}" selects the ${provider ?? "unknown"} provider`,
+        });
+      }
+      continue;
+    }
 
     // Step 1: Expand aliases to canonical name
-    if (ALIASES[key]) {
-      const canonical = ALIASES[key];
+    const canonical = resolveAlias(key, paramMap);
+    if (canonical !== key) {
       if (options.verbose) {
         changes.push({
           from: key,
@@ -74,8 +464,8 @@ export function normalize(
     }
 
     // Step 2: Handle special "cache" param
-    if (key === "cache" && provider) {
-      let cacheValue = CACHE_VALUES[provider];
+    if (key === "cache" && provider && nativeProvider) {
+      let cacheValue = CACHE_VALUES[nativeProvider];
 
       // Bedrock supports cache for Anthropic Claude and Amazon Nova models
       if (provider === "bedrock" && !bedrockSupportsCaching(config.model)) {
@@ -99,8 +489,7 @@ export function normalize(
       const isDuration = DURATION_RE.test(value);
 
       if (isBool || isDuration) {
-        const providerKey =
-          PROVIDER_PARAMS[provider]?.["cache"] ?? "cache";
+        const providerKey = paramMap?.["cache"] ?? "cache";
         if (options.verbose) {
           changes.push({
             from: "cache",
@@ -112,7 +501,7 @@ export function normalize(
         params[providerKey] = cacheValue;
 
         // Emit cache_ttl when a duration is specified
-        if (isDuration && CACHE_TTLS[provider]) {
+        if (isDuration && CACHE_TTLS[nativeProvider]) {
           if (options.verbose) {
             changes.push({
               from: "cache",
@@ -127,9 +516,53 @@ export function normalize(
       }
     }
 
+    // Gemini selects JSON output with a MIME type rather than a flag
+    if (key === "json" && paramMap?.json === "responseMimeType") {
+      const on = value === "true" || value === "1";
+      if (on || value === "false" || value === "0") {
+        if (options.verbose) {
+          changes.push({
+            from: "json",
+            to: on ? "responseMimeType" : "(dropped)",
+            value: on ? JSON_MIME_TYPE : value,
+            reason: on
+              ? `json=${value} → responseMimeType=${JSON_MIME_TYPE} for ${provider}`
+              : `json=${value}: ${provider} returns text by default`,
+          });
+        }
+        if (on) params.responseMimeType = JSON_MIME_TYPE;
+        continue;
+      }
+    }
+
+    // Effort levels differ per provider; budget-only providers get a thinking budget
+    if (key === "effort" && provider && paramMap && specs) {
+      const translated = translateEffort(
+        value,
+        provider,
+        config.model,
+        paramMap,
+        specs,
+        explicitThinking,
+        maxTokens,
+        {
+          temperature: inputValue("temperature"),
+          top_p: inputValue("top_p"),
+          top_k: inputValue("top_k"),
+        },
+        changes,
+      );
+      if (!translated) continue;
+      if (translated.key !== paramMap.effort) {
+        params[translated.key] = translated.value;
+        continue;
+      }
+      value = translated.value;
+    }
+
     // Step 3: Map canonical → provider-specific param name
-    if (provider && PROVIDER_PARAMS[provider]) {
-      const providerKey = PROVIDER_PARAMS[provider][key];
+    if (provider && paramMap) {
+      const providerKey = paramMap[key];
       if (providerKey && providerKey !== key) {
         if (options.verbose) {
           changes.push({
@@ -146,8 +579,7 @@ export function normalize(
     // Step 4: OpenAI reasoning model adjustments (direct or via gateway)
     if (
       provider &&
-      canHostOpenAIModels(provider) &&
-      isReasoningModel(config.model) &&
+      isReasoningTarget(provider, config.model) &&
       key === "max_tokens"
     ) {
       if (options.verbose) {
@@ -162,13 +594,54 @@ export function normalize(
       key = "max_completion_tokens";
     }
 
+    // List params given under several aliases (stop + stop_sequences) accumulate
+    if (params[key] !== undefined && specs?.[key]?.type === "string[]") {
+      params[key] = `${params[key]}${LIST_SEPARATOR}${value}`;
+      continue;
+    }
+
     params[key] = value;
   }
 
+  const endpoint =
+    provider === "azure"
+      ? { resource: detectAzureResource(config.host), deployment: config.model }
+      : provider === "bedrock"
+        ? {
+            region: detectBedrockRegion(config.host),
+            inferenceProfile: detectBedrockInferenceProfile(config.model),
+          }
+      : provider === "vertex"
+        ? {
+            region: vertexRegion(config.host, params.location),
+            project: params.project,
+          }
+        : {};
+  const routing =
+    provider && paramMap && isGatewayProvider(provider)
+      ? gatewayRouting(params, paramMap)
+      : undefined;
+
+  if (options.typed) {
+    return {
+      config: withSafeSerialization({
+        ...config,
+        params: coerceParams(params, specs, changes),
+      }),
+      provider,
+      subProvider,
+      ...endpoint,
+      ...(routing && { routing }),
+      changes,
+    };
+  }
+
   return {
-    config: { ...config, params },
+    config: withSafeSerialization({ ...config, params }),
     provider,
     subProvider,
+    ...endpoint,
+    ...(routing && { routing }),
     changes,
   };
 }
@@ -1,7 +1,19 @@
+import { isListParam } from "./provider-core.js";
+import { redact, withSafeSerialization } from "./redact.js";
+import { parseSecretRef } from "./secrets.js";
+
+/** A reference to a secret stored elsewhere, e.g. `env:OPENAI_API_KEY`. */
+export interface SecretRef {
+  /** Resolver scheme (e.g. "env", "file", "vault") */
+  scheme: string;
+  /** Everything after the scheme (e.g. "OPENAI_API_KEY", "/run/secrets/openai") */
+  ref: string;
+}
+
 export interface LlmConnectionConfig {
   /** The original connection string */
   raw: string;
-  /** Provider's API base URL (e.g. "api.openai.com") */
+  /** Provider's API base URL, including any port (e.g. "api.openai.com", "localhost:11434") */
   host: string;
   /** Model name (e.g. "gpt-5.2") */
   model: string;
@@ -9,15 +21,79 @@ export interface LlmConnectionConfig {
   label?: string;
   /** Optional API key or password */
   apiKey?: string;
+  /**
+   * Set when `apiKey` is a secret reference (`env:NAME`, `file:/path`, …)
+   * rather than a literal key. Use `resolveSecrets()` to fill in the value.
+   */
+  apiKeyRef?: SecretRef;
   /** Additional config parameters (temp, max_tokens, etc.) */
   params: Record<string, string>;
 }
 
+/** Stable identifiers for the ways a connection string can be malformed. */
+export type LlmStringErrorCode =
+  | "INVALID_SCHEME"
+  | "BAD_ENCODING"
+  | "INVALID_HOST"
+  | "MISSING_HOST"
+  | "MISSING_MODEL";
+
+/**
+ * Thrown by `parse()` for malformed connection strings.
+ * Messages never contain the apiKey.
+ */
+export class LlmStringError extends Error {
+  override name = "LlmStringError";
+
+  constructor(
+    message: string,
+    /** What went wrong; stable across releases, unlike the message. */
+    readonly code: LlmStringErrorCode,
+    /** Character offset in the connection string where the problem starts. */
+    readonly offset: number,
+  ) {
+    super(message);
+  }
+}
+
+export type SafeParseResult =
+  | { ok: true; config: LlmConnectionConfig }
+  | { ok: false; error: LlmStringError };
+
+const SCHEME_PREFIX = "llm://";
+
+/**
+ * Offset of the first malformed percent-escape: a `%` not followed by two
+ * hex digits, or a run of escapes that isn't valid UTF-8.
+ */
+function findBadEncoding(value: string): number | undefined {
+  const syntax = /%(?![0-9a-f]{2})/i.exec(value);
+  for (const run of value.matchAll(/(?:%[0-9a-f]{2})+/gi)) {
+    if (syntax && syntax.index < run.index) break;
+    try {
+      decodeURIComponent(run[0]);
+    } catch {
+      return run.index;
+    }
+  }
+  return syntax?.index;
+}
+
 /**
  * Parse an LLM connection string into its component parts.
  *
  * Format: `llm://[label[:apiKey]@]host/model[?key=value&...]`
  *
+ * The apiKey may be a secret reference (`env:OPENAI_API_KEY`,
+ * `file:%2Frun%2Fsecrets%2Fopenai`) instead of a literal key; it's then
+ * also exposed as `apiKeyRef`. Only `env:`, `file:` and schemes added with
+ * `registerSecretResolver()` count as references. Slashes in a reference
+ * must be percent-encoded.
+ *
+ * Throws an `LlmStringError` with a stable `code` and the character `offset`
+ * of the problem if the string is malformed. Use `safeParse()` to get the
+ * error as a value instead.
+ *
  * @example
  * ```ts
  * parse("llm://api.openai.com/gpt-5.2?temp=0.7&max_tokens=1500")
@@ -25,45 +101,186 @@ export interface LlmConnectionConfig {
  * ```
  */
 export function parse(connectionString: string): LlmConnectionConfig {
-  const url = new URL(connectionString);
+  if (!connectionString.toLowerCase().startsWith(SCHEME_PREFIX)) {
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(connectionString)?.[1];
+    throw new LlmStringError(
+      scheme
+        ? `Invalid scheme: expected "llm://", got "${scheme}://"`
+        : `Invalid scheme: expected the connection string to start with "llm://"`,
+      "INVALID_SCHEME",
+      0,
+    );
+  }
 
-  if (url.protocol !== "llm:") {
-    throw new Error(
-      `Invalid scheme: expected "llm://", got "${url.protocol}//"`,
+  // Offsets of the host and model, for error reporting
+  const authorityEnd = connectionString.slice(SCHEME_PREFIX.length).search(/[/?#]/);
+  const modelOffset =
+    authorityEnd === -1 ? connectionString.length : SCHEME_PREFIX.length + authorityEnd;
+  const hostOffset =
+    connectionString.lastIndexOf("@", modelOffset - 1) + 1 || SCHEME_PREFIX.length;
+
+  // Only the credentials get decoded; a stray `%` in the model or a param
+  // value is kept as written
+  const badEncoding = findBadEncoding(connectionString.slice(0, modelOffset));
+  if (badEncoding !== undefined) {
+    throw new LlmStringError(
+      `Invalid connection string: malformed percent-encoding at offset ${badEncoding}`,
+      "BAD_ENCODING",
+      badEncoding,
+    );
+  }
+
+  let url: URL;
+  try {
+    url = new URL(connectionString);
+  } catch {
+    // URL errors echo the input (including any key); report a redacted copy
+    throw new LlmStringError(
+      `Invalid connection string: malformed host at offset ${hostOffset} in "${redact(connectionString)}"`,
+      "INVALID_HOST",
+      hostOffset,
+    );
+  }
+
+  const host = url.host;
+  if (!host) {
+    throw new LlmStringError(
+      `Invalid connection string: missing host at offset ${hostOffset}`,
+      "MISSING_HOST",
+      hostOffset,
     );
   }
 
-  const host = url.hostname;
   const model = url.pathname.replace(/^\//, "");
+  if (!model) {
+    throw new LlmStringError(
+      `Invalid connection string: missing model at offset ${modelOffset} (expected "llm://host/model")`,
+      "MISSING_MODEL",
+      modelOffset,
+    );
+  }
+
   const label = url.username || undefined;
-  const apiKey = url.password || undefined;
+  const apiKey = url.password ? decodeURIComponent(url.password) : undefined;
+  const apiKeyRef = apiKey ? parseSecretRef(apiKey) : undefined;
 
+  // Repeated list params (`?stop=END&stop=###`) collapse into one list
+  // value; for any other param the last value wins
   const params: Record<string, string> = {};
-  for (const [key, value] of url.searchParams) {
-    params[key] = value;
+  for (const key of new Set(url.searchParams.keys())) {
+    const values = url.searchParams.getAll(key);
+    params[key] =
+      values.length > 1 && isListParam(key) ? joinListValue(values) : values[values.length - 1];
   }
 
-  return {
+  return withSafeSerialization({
     raw: connectionString,
     host,
     model,
     label,
     apiKey,
+    ...(apiKeyRef && { apiKeyRef }),
     params,
-  };
+  });
+}
+
+/**
+ * Parse a connection string without throwing.
+ *
+ * @example
+ * ```ts
+ * const result = safeParse(input);
+ * if (!result.ok) console.error(result.error.code, result.error.offset);
+ * ```
+ */
+export function safeParse(connectionString: string): SafeParseResult {
+  try {
+    return { ok: true, config: parse(connectionString) };
+  } catch (error) {
+    if (error instanceof LlmStringError) return { ok: false, error };
+    throw error;
+  }
 }
 
 /**
  * Build an LLM connection string from a config object.
+ * Array param values are joined into a single list value.
+ * The apiKey is percent-encoded, so secret references round-trip.
  */
-export function build(config: Omit<LlmConnectionConfig, "raw">): string {
+export function build(
+  config: Omit<LlmConnectionConfig, "raw" | "params" | "apiKeyRef"> & {
+    params: Record<string, string | string[]>;
+  },
+): string {
   const auth =
     config.label || config.apiKey
-      ? `${config.label ?? ""}${config.apiKey ? `:${config.apiKey}` : ""}@`
+      ? `${config.label ?? ""}${config.apiKey ? `:${encodeURIComponent(config.apiKey)}` : ""}@`
       : "";
 
-  const query = new URLSearchParams(config.params).toString();
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config.params)) {
+    params[key] = Array.isArray(value) ? joinListValue(value) : value;
+  }
+
+  const query = new URLSearchParams(params).toString();
   const qs = query ? `?${query}` : "";
 
   return `llm://${auth}${config.host}/${config.model}${qs}`;
 }
+
+/** Separator between items of a list-valued param (`stop=END,###`). */
+export const LIST_SEPARATOR = ",";
+
+/**
+ * Split a list param value into its items.
+ * A backslash escapes a literal separator (`\,`) or backslash (`\\`);
+ * any other backslash is kept as-is.
+ */
+export function splitListValue(value: string): string[] {
+  const items: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const next = value[i + 1];
+    if (char === "\\" && (next === LIST_SEPARATOR || next === "\\")) {
+      current += next;
+      i++;
+    } else if (char === LIST_SEPARATOR) {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items;
+}
+
+/** Boundary between connection strings: commas or whitespace before the next "llm://". */
+const CONNECTION_STRING_SEPARATOR_RE = /[\s,]+(?=llm:\/\/)/i;
+
+/**
+ * Split several connection strings given as one value (e.g. an env var)
+ * at the commas or whitespace before each `llm://`. Arrays are taken as
+ * already split. Entries are trimmed and empty ones dropped.
+ *
+ * @example
+ * ```ts
+ * splitConnectionStrings("llm://api.anthropic.com/claude-sonnet-4-5?stop=a,b, llm://api.openai.com/gpt-5.2")
+ * // → ["llm://api.anthropic.com/claude-sonnet-4-5?stop=a,b", "llm://api.openai.com/gpt-5.2"]
+ * ```
+ */
+export function splitConnectionStrings(input: string | string[]): string[] {
+  return (Array.isArray(input) ? input : input.split(CONNECTION_STRING_SEPARATOR_RE))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "");
+}
+
+/** Join list items into a single param value, escaping separators. */
+export function joinListValue(items: string[]): string {
+  return items
+    .map((item) =>
+      item.replaceAll("\\", "\\\\").replaceAll(LIST_SEPARATOR, `\\${LIST_SEPARATOR}`),
+    )
+    .join(LIST_SEPARATOR);
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { normalize } from "./normalize.js";
+import { parse } from "./parse.js";
+import {
+  PRESETS,
+  expandPreset,
+  registerPreset,
+  unregisterPreset,
+} from "./presets.js";
+
+describe("expandPreset", () => {
+  it("returns the provider-specific bundle when there is one", () => {
+    expect(expandPreset("deterministic", "anthropic")).toEqual({ temperature: "0" });
+    expect(expandPreset("deterministic", "openai")).toEqual({ temperature: "0", seed: "42" });
+  });
+
+  it("falls back to the default bundle", () => {
+    expect(expandPreset("creative")).toEqual(PRESETS.creative.params);
+  });
+
+  it("returns undefined for unknown presets", () => {
+    expect(expandPreset("nope")).toBeUndefined();
+    expect(expandPreset("toString")).toBeUndefined();
+  });
+});
+
+describe("registerPreset", () => {
+  afterEach(() => {
+    unregisterPreset("eval");
+  });
+
+  it("adds a preset that normalize() expands", () => {
+    registerPreset("eval", {
+      params: { temperature: "0", max_tokens: "1024" },
+      providers: { google: { temperature: "0", max_tokens: "2048" } },
+    });
+
+    expect(
+      normalize(parse("llm://api.openai.com/gpt-5.2?preset=eval")).config.params,
+    ).toEqual({ temperature: "0", max_tokens: "1024" });
+    expect(
+      normalize(parse("llm://generativelanguage.googleapis.com/gemini-2.5-pro?preset=eval"))
+        .config.params,
+    ).toEqual({ temperature: "0", maxOutputTokens: "2048" });
+  });
+
+  it("refuses to replace built-in presets", () => {
+    expect(() => registerPreset("deterministic", { params: {} })).toThrow("built-in");
+    expect(unregisterPreset("deterministic")).toBe(false);
+  });
+
+  it("reports whether a preset was removed", () => {
+    registerPreset("eval", { params: { temperature: "0" } });
+    expect(unregisterPreset("eval")).toBe(true);
+    expect(unregisterPreset("eval")).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import type { Provider } from "./provider-core.js";
+
+/** Param that names one or more presets (`?preset=deterministic`). */
+export const PRESET_PARAM = "preset";
+
+export interface PresetDefinition {
+  /** Canonical params the preset expands to (e.g. `{ temperature: "0" }`). */
+  params: Record<string, string>;
+  /**
+   * Provider-specific bundles that replace `params` for that provider, when
+   * the preset means something different there.
+   */
+  providers?: Partial<Record<Provider, Record<string, string>>>;
+  /** Human-readable summary, for UIs and docs. */
+  description?: string;
+}
+
+/** Built-in presets. Custom ones are added with `registerPreset()`. */
+export const PRESETS: Record<string, PresetDefinition> = {
+  deterministic: {
+    params: { temperature: "0", seed: "42" },
+    // No seed param on Anthropic or Bedrock; temperature 0 is as close as it gets
+    providers: {
+      anthropic: { temperature: "0" },
+      bedrock: { temperature: "0" },
+    },
+    description: "Repeatable output for evals and tests",
+  },
+  balanced: {
+    params: { temperature: "0.7" },
+    description: "General-purpose defaults",
+  },
+  creative: {
+    params: { temperature: "1", top_p: "0.95" },
+    // Anthropic rejects temperature together with top_p
+    providers: {
+      anthropic: { temperature: "1" },
+      bedrock: { temperature: "1" },
+    },
+    description: "More varied output for brainstorming and writing",
+  },
+};
+
+const BUILT_IN_PRESETS = new Set(Object.keys(PRESETS));
+
+/**
+ * Register a custom preset, or replace a previously registered one.
+ * Built-in presets can't be replaced.
+ *
+ * @example
+ * ```ts
+ * registerPreset("eval", {
+ *   params: { temperature: "0", max_tokens: "1024" },
+ *   providers: { openai: { temperature: "0", seed: "7", max_tokens: "1024" } },
+ * });
+ * normalize(parse("llm://api.openai.com/gpt-5.2?preset=eval"));
+ * ```
+ */
+export function registerPreset(name: string, definition: PresetDefinition): void {
+  if (BUILT_IN_PRESETS.has(name)) {
+    throw new Error(`Cannot register preset "${name}": it is a built-in preset`);
+  }
+  PRESETS[name] = definition;
+}
+
+/** Remove a custom preset. Returns `false` if it wasn't registered. */
+export function unregisterPreset(name: string): boolean {
+  if (BUILT_IN_PRESETS.has(name) || !Object.hasOwn(PRESETS, name)) return false;
+  delete PRESETS[name];
+  return true;
+}
+
+/**
+ * The canonical params a preset expands to for a provider, or `undefined`
+ * for unknown presets.
+ */
+export function expandPreset(
+  name: string,
+  provider?: Provider,
+): Record<string, string> | undefined {
+  if (!Object.hasOwn(PRESETS, name)) return undefined;
+  const preset = PRESETS[name];
+  return (provider && preset.providers?.[provider]) ?? preset.params;
+}
@@ -1,27 +1,176 @@
-export type Provider =
+import {
+  CANONICAL_PARAM_SPECS,
+  MODELS,
+  PROVIDER_META,
+  type CanonicalParamSpec,
+  type ProviderMeta,
+} from "./provider-meta.js";
+
+export type BuiltInProvider =
   | "openai"
+  | "azure"
   | "anthropic"
   | "google"
+  | "vertex"
   | "mistral"
   | "cohere"
+  | "xai"
+  | "deepseek"
+  | "groq"
+  | "together"
+  | "fireworks"
+  | "perplexity"
   | "bedrock"
   | "openrouter"
-  | "vercel";
+  | "vercel"
+  | "ollama"
+  | "vllm"
+  | "lmstudio"
+  | "llamacpp";
+
+/**
+ * Registry of custom provider IDs. Augment it to make IDs passed to
+ * `registerProvider()` part of the `Provider` type:
+ *
+ * ```ts
+ * declare module "llm-strings" {
+ *   interface CustomProviders {
+ *     "acme-gateway": true;
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface CustomProviders {}
+
+export type Provider = BuiltInProvider | Extract<keyof CustomProviders, string>;
+
+/** Matches a hostname: substring, regular expression, or predicate. */
+export type HostMatcher = string | RegExp | ((host: string) => boolean);
+
+/** Custom providers, checked in registration order before the built-ins. */
+const customProviders: { id: Provider; match: HostMatcher; gateway: boolean }[] = [];
+
+function matchesHost(match: HostMatcher, host: string): boolean {
+  if (typeof match === "string") return host.includes(match);
+  if (match instanceof RegExp) return match.test(host);
+  return match(host);
+}
+
+/**
+ * Param that names the provider explicitly (`?llm_provider=vllm`). Not
+ * `provider`, which is OpenRouter's routing field.
+ */
+export const PROVIDER_HINT = "llm_provider";
+
+/** Loopback hosts, the only ones where a default port identifies a local runtime. */
+const LOOPBACK_HOST_RE = /^(?:localhost|127(?:\.\d{1,3}){3}|0\.0\.0\.0|\[::1\])(?::(\d+))?$/i;
+
+/** Default ports of local OpenAI-compatible runtimes. */
+export const LOCAL_RUNTIME_PORTS: Record<string, Provider> = {
+  "11434": "ollama",
+  "1234": "lmstudio",
+  "8000": "vllm",
+  "8080": "llamacpp",
+};
+
+/**
+ * Detect the provider from a host (optionally with a port).
+ *
+ * An explicit `hint` (the `llm_provider=` param, e.g. `?llm_provider=vllm`)
+ * wins over host-based detection when it names a known provider.
+ */
+export function detectProvider(
+  host: string,
+  hint?: string,
+): Provider | undefined {
+  if (hint && Object.hasOwn(PROVIDER_PARAMS, hint)) return hint as Provider;
+
+  // Registered providers first — they're more specific than the built-in rules
+  const custom = customProviders.find((p) => matchesHost(p.match, host));
+  if (custom) return custom.id;
 
-export function detectProvider(host: string): Provider | undefined {
   // Gateways and aggregators first — they proxy to other providers
   if (host.includes("openrouter")) return "openrouter";
   if (host.includes("gateway.ai.vercel")) return "vercel";
   // Bedrock before native providers since it hosts models from multiple vendors
   if (host.includes("amazonaws") || host.includes("bedrock")) return "bedrock";
+  // Azure before OpenAI since its hosts contain "openai" too
+  if (detectAzureResource(host)) return "azure";
   if (host.includes("openai")) return "openai";
   if (host.includes("anthropic") || host.includes("claude")) return "anthropic";
+  // Vertex before Google since both live on googleapis.com
+  if (host.includes("aiplatform.googleapis")) return "vertex";
   if (host.includes("googleapis") || host.includes("google")) return "google";
   if (host.includes("mistral")) return "mistral";
   if (host.includes("cohere")) return "cohere";
+  // Matched as a domain: "x.ai" is a substring of too many hosts
+  if (/(?:^|\.)x\.ai(?::\d+)?$/.test(host)) return "xai";
+  if (host.includes("deepseek")) return "deepseek";
+  if (host.includes("groq")) return "groq";
+  if (host.includes("together")) return "together";
+  if (host.includes("fireworks")) return "fireworks";
+  if (host.includes("perplexity")) return "perplexity";
+  // Local runtimes are only recognizable by their default ports on loopback;
+  // elsewhere 8000 or 8080 is as likely any other self-hosted service
+  const port = LOOPBACK_HOST_RE.exec(host)?.[1];
+  if (port && LOCAL_RUNTIME_PORTS[port]) return LOCAL_RUNTIME_PORTS[port];
   return undefined;
 }
 
+/**
+ * Extract the Azure resource name from an Azure OpenAI host.
+ * e.g. "my-resource.openai.azure.com" → "my-resource"
+ */
+export function detectAzureResource(host: string): string | undefined {
+  const match = /^([a-z0-9-]+)\.(?:openai|cognitiveservices)\.azure\.com(?::\d+)?$/i.exec(
+    host,
+  );
+  return match?.[1];
+}
+
+/** Azure `api-version` values: dated GA/preview versions or the v1 API labels. */
+export const AZURE_API_VERSION_RE =
+  /^(?:\d{4}-\d{2}-\d{2}(?:-preview)?|v1|preview|latest)$/;
+
+/**
+ * Extract the Vertex AI location from the host.
+ * e.g. "us-central1-aiplatform.googleapis.com" → "us-central1",
+ * "aiplatform.googleapis.com" → "global"
+ */
+export function detectVertexLocation(host: string): string | undefined {
+  const match = /^(?:([a-z0-9-]+)-)?aiplatform\.googleapis\.com(?::\d+)?$/.exec(host);
+  if (!match) return undefined;
+  return match[1] ?? "global";
+}
+
+/**
+ * Detect the publisher of a Vertex AI model. Accepts full resource names
+ * ("publishers/anthropic/models/claude-sonnet-4-5") and bare model IDs
+ * ("claude-sonnet-4-5@20250929", "gemini-2.5-pro").
+ * Returns undefined for publishers without a matching provider (e.g. meta).
+ */
+export function detectVertexPublisher(model: string): Provider | undefined {
+  const resource = /(?:^|\/)publishers\/([^/]+)\/models\//.exec(model);
+  if (resource) {
+    const publishers: Record<string, Provider> = {
+      google: "google",
+      anthropic: "anthropic",
+      mistralai: "mistral",
+    };
+    return publishers[resource[1]];
+  }
+  if (model.startsWith("claude-")) return "anthropic";
+  if (model.startsWith("gemini-")) return "google";
+  if (/^(?:mistral|codestral)/.test(model)) return "mistral";
+  return undefined;
+}
+
+/** Whether this provider is a local runtime (Ollama, vLLM, LM Studio, llama.cpp). */
+export function isLocalProvider(provider: Provider): boolean {
+  return Object.values(LOCAL_RUNTIME_PORTS).includes(provider);
+}
+
 /**
  * Shorthand aliases → canonical param name.
  * Canonical names use snake_case and follow OpenAI conventions where possible.
@@ -38,6 +187,8 @@ export const ALIASES: Record<string, string> = {
   max_completion_tokens: "max_tokens",
   maxOutputTokens: "max_tokens",
   maxTokens: "max_tokens",
+  num_predict: "max_tokens",
+  n_predict: "max_tokens",
 
   // top_p
   topp: "top_p",
@@ -48,6 +199,10 @@ export const ALIASES: Record<string, string> = {
   topk: "top_k",
   topK: "top_k",
 
+  // min_p
+  minp: "min_p",
+  minP: "min_p",
+
   // frequency_penalty
   freq: "frequency_penalty",
   freq_penalty: "frequency_penalty",
@@ -73,10 +228,40 @@ export const ALIASES: Record<string, string> = {
   candidate_count: "n",
   num_completions: "n",
 
+  // Azure api-version
+  apiVersion: "api_version",
+  "api-version": "api_version",
+
+  // Vertex AI project
+  projectId: "project",
+  project_id: "project",
+
   // effort / reasoning
   reasoning_effort: "effort",
   reasoning: "effort",
 
+  // thinking (extended thinking token budget)
+  thinking_budget: "thinking",
+  thinkingBudget: "thinking",
+  budget_tokens: "thinking",
+  budgetTokens: "thinking",
+  thinking_tokens: "thinking",
+
+  // structured output
+  json_mode: "json",
+  jsonMode: "json",
+  json_schema: "schema",
+  response_schema: "schema",
+  responseSchema: "schema",
+
+  // gateway routing
+  order: "provider_order",
+  providerOrder: "provider_order",
+  allowFallbacks: "allow_fallbacks",
+  dataCollection: "data_collection",
+  fallback_models: "models",
+  fallbackModels: "models",
+
   // cache
   cache_control: "cache",
   cacheControl: "cache",
@@ -84,6 +269,22 @@ export const ALIASES: Record<string, string> = {
   cache_point: "cache",
 };
 
+/**
+ * Expand an alias to its canonical param name. A provider's own param wins
+ * over an alias spelled the same way: vLLM's `repetition_penalty` is its
+ * repetition multiplier, not the `frequency_penalty` alias.
+ */
+export function resolveAlias(
+  key: string,
+  paramMap: Record<string, string> = {},
+): string {
+  if (!Object.hasOwn(ALIASES, key)) return key;
+  for (const [canonical, specific] of Object.entries(paramMap)) {
+    if (specific === key) return canonical;
+  }
+  return ALIASES[key];
+}
+
 /**
  * Canonical param name → provider-specific API param name.
  * Only includes params the provider actually supports.
@@ -100,6 +301,24 @@ export const PROVIDER_PARAMS: Record<Provider, Record<string, string>> = {
     seed: "seed",
     stream: "stream",
     effort: "reasoning_effort",
+    json: "json",
+    schema: "schema",
+  },
+  azure: {
+    // Azure OpenAI: OpenAI params plus the api-version query param
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    top_p: "top_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    stop: "stop",
+    n: "n",
+    seed: "seed",
+    stream: "stream",
+    effort: "reasoning_effort",
+    json: "json",
+    schema: "schema",
+    api_version: "api-version",
   },
   anthropic: {
     temperature: "temperature",
@@ -109,6 +328,9 @@ export const PROVIDER_PARAMS: Record<Provider, Record<string, string>> = {
     stop: "stop_sequences",
     stream: "stream",
     effort: "effort",
+    thinking: "budget_tokens",
+    json: "json",
+    schema: "schema",
     cache: "cache_control",
     cache_ttl: "cache_ttl",
   },
@@ -123,8 +345,25 @@ export const PROVIDER_PARAMS: Record<Provider, Record<string, string>> = {
     n: "candidateCount",
     stream: "stream",
     seed: "seed",
-    responseMimeType: "responseMimeType",
-    responseSchema: "responseSchema",
+    thinking: "thinkingBudget",
+    json: "responseMimeType",
+    schema: "responseSchema",
+  },
+  vertex: {
+    // OpenAI-compatible endpoint for partner models (Llama, etc.). Gemini,
+    // Claude and Mistral models use their publisher's native params instead.
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    top_p: "top_p",
+    top_k: "top_k",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    stop: "stop",
+    n: "n",
+    seed: "seed",
+    stream: "stream",
+    project: "project",
+    location: "location",
   },
   mistral: {
     temperature: "temperature",
@@ -138,6 +377,8 @@ export const PROVIDER_PARAMS: Record<Provider, Record<string, string>> = {
     stream: "stream",
     safe_prompt: "safe_prompt",
     min_tokens: "min_tokens",
+    json: "json",
+    schema: "schema",
   },
   cohere: {
     temperature: "temperature",
@@ -149,6 +390,102 @@ export const PROVIDER_PARAMS: Record<Provider, Record<string, string>> = {
     stop: "stop_sequences",
     stream: "stream",
     seed: "seed",
+    json: "json",
+    schema: "schema",
+  },
+  xai: {
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    top_p: "top_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    stop: "stop",
+    n: "n",
+    seed: "seed",
+    stream: "stream",
+    effort: "reasoning_effort",
+    json: "json",
+    schema: "schema",
+  },
+  deepseek: {
+    // Structured output is JSON mode only, without a schema
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    top_p: "top_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    stop: "stop",
+    stream: "stream",
+    json: "json",
+  },
+  groq: {
+    // max_tokens is deprecated in favor of max_completion_tokens
+    temperature: "temperature",
+    max_tokens: "max_completion_tokens",
+    top_p: "top_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    stop: "stop",
+    n: "n",
+    seed: "seed",
+    stream: "stream",
+    effort: "reasoning_effort",
+    json: "json",
+    schema: "schema",
+  },
+  together: {
+    // OpenAI-compatible API with extra sampling params
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    top_p: "top_p",
+    top_k: "top_k",
+    min_p: "min_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    repeat_penalty: "repetition_penalty",
+    stop: "stop",
+    n: "n",
+    seed: "seed",
+    stream: "stream",
+    json: "json",
+    schema: "schema",
+  },
+  fireworks: {
+    // OpenAI-compatible API with extra sampling params
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    top_p: "top_p",
+    top_k: "top_k",
+    min_p: "min_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    repeat_penalty: "repetition_penalty",
+    stop: "stop",
+    n: "n",
+    stream: "stream",
+    effort: "reasoning_effort",
+    json: "json",
+    schema: "schema",
+  },
+  perplexity: {
+    // Sonar API: OpenAI-style sampling plus web search params. Structured
+    // output takes a schema; there's no plain JSON mode.
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    top_p: "top_p",
+    top_k: "top_k",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    stream: "stream",
+    effort: "reasoning_effort",
+    schema: "schema",
+    search_mode: "search_mode",
+    search_recency_filter: "search_recency_filter",
+    search_domain_filter: "search_domain_filter",
+    search_context_size: "search_context_size", // web_search_options.search_context_size
+    return_images: "return_images",
+    return_related_questions: "return_related_questions",
+    disable_search: "disable_search",
   },
   bedrock: {
     // Bedrock Converse API uses camelCase
@@ -158,6 +495,7 @@ export const PROVIDER_PARAMS: Record<Provider, Record<string, string>> = {
     top_k: "topK", // Claude models via additionalModelRequestFields
     stop: "stopSequences",
     stream: "stream",
+    thinking: "budget_tokens", // Claude models via additionalModelRequestFields
     cache: "cache_control",
     cache_ttl: "cache_ttl",
   },
@@ -174,6 +512,13 @@ export const PROVIDER_PARAMS: Record<Provider, Record<string, string>> = {
     seed: "seed",
     stream: "stream",
     effort: "reasoning_effort",
+    json: "json",
+    schema: "schema",
+    provider_order: "provider_order", // provider.order
+    allow_fallbacks: "allow_fallbacks", // provider.allow_fallbacks
+    data_collection: "data_collection", // provider.data_collection
+    models: "models",
+    transforms: "transforms",
   },
   vercel: {
     // OpenAI-compatible gateway
@@ -188,6 +533,70 @@ export const PROVIDER_PARAMS: Record<Provider, Record<string, string>> = {
     seed: "seed",
     stream: "stream",
     effort: "reasoning_effort",
+    json: "json",
+    schema: "schema",
+    provider_order: "provider_order", // providerOptions.gateway.order
+    models: "models", // providerOptions.gateway.models
+  },
+  ollama: {
+    // Native /api/chat options
+    temperature: "temperature",
+    max_tokens: "num_predict",
+    top_p: "top_p",
+    top_k: "top_k",
+    min_p: "min_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    repeat_penalty: "repeat_penalty",
+    stop: "stop",
+    seed: "seed",
+    stream: "stream",
+    num_ctx: "num_ctx",
+    keep_alive: "keep_alive",
+  },
+  vllm: {
+    // OpenAI-compatible server with extra sampling params
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    min_tokens: "min_tokens",
+    top_p: "top_p",
+    top_k: "top_k",
+    min_p: "min_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    repeat_penalty: "repetition_penalty",
+    stop: "stop",
+    n: "n",
+    seed: "seed",
+    stream: "stream",
+  },
+  lmstudio: {
+    // OpenAI-compatible server
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    top_p: "top_p",
+    top_k: "top_k",
+    min_p: "min_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    repeat_penalty: "repeat_penalty",
+    stop: "stop",
+    seed: "seed",
+    stream: "stream",
+  },
+  llamacpp: {
+    // llama-server OpenAI-compatible endpoint with native sampling params
+    temperature: "temperature",
+    max_tokens: "max_tokens",
+    top_p: "top_p",
+    top_k: "top_k",
+    min_p: "min_p",
+    frequency_penalty: "frequency_penalty",
+    presence_penalty: "presence_penalty",
+    repeat_penalty: "repeat_penalty",
+    stop: "stop",
+    seed: "seed",
+    stream: "stream",
   },
 };
 
@@ -195,10 +604,13 @@ export const PROVIDER_PARAMS: Record<Provider, Record<string, string>> = {
  * Validation specs per provider, keyed by provider-specific param name.
  */
 export interface ParamSpec {
-  type: "number" | "string" | "boolean";
+  /** `string[]` marks list-valued params such as stop sequences. */
+  type: "number" | "string" | "boolean" | "string[]";
   min?: number;
   max?: number;
   values?: string[];
+  /** Maximum number of items for `string[]` params. */
+  maxItems?: number;
   default?: string | number | boolean;
   description?: string;
 }
@@ -207,10 +619,11 @@ export const PARAM_SPECS: Record<Provider, Record<string, ParamSpec>> = {
   openai: {
     temperature: { type: "number", min: 0, max: 2, default: 0.7, description: "Controls randomness" },
     max_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens" },
+    max_completion_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens (reasoning models)" },
     top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
     frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
     presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
-    stop: { type: "string", description: "Stop sequences" },
+    stop: { type: "string[]", maxItems: 4, description: "Stop sequences" },
     n: { type: "number", min: 1, default: 1, description: "Completions count" },
     seed: { type: "number", description: "Random seed" },
     stream: { type: "boolean", default: false, description: "Stream response" },
@@ -220,17 +633,43 @@ export const PARAM_SPECS: Record<Provider, Record<string, ParamSpec>> = {
       default: "medium",
       description: "Reasoning effort",
     },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
+  },
+  azure: {
+    temperature: { type: "number", min: 0, max: 2, default: 0.7, description: "Controls randomness" },
+    max_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens" },
+    max_completion_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens (reasoning models)" },
+    top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    stop: { type: "string[]", maxItems: 4, description: "Stop sequences" },
+    n: { type: "number", min: 1, default: 1, description: "Completions count" },
+    seed: { type: "number", description: "Random seed" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+    reasoning_effort: {
+      type: "string",
+      values: ["minimal", "low", "medium", "high"],
+      default: "medium",
+      description: "Reasoning effort",
+    },
+    "api-version": { type: "string", description: "Azure OpenAI API version (e.g. 2025-04-01-preview)" },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
   },
   anthropic: {
     temperature: { type: "number", min: 0, max: 1, default: 0.7, description: "Controls randomness" },
     max_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens" },
     top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
     top_k: { type: "number", min: 0, default: 40, description: "Top-K sampling" },
-    stop_sequences: { type: "string", description: "Stop sequences" },
+    stop_sequences: { type: "string[]", description: "Stop sequences" },
     stream: { type: "boolean", default: false, description: "Stream response" },
     effort: { type: "string", values: ["low", "medium", "high", "max"], default: "medium", description: "Thinking effort" },
+    budget_tokens: { type: "number", min: 1024, description: "Extended thinking token budget" },
     cache_control: { type: "string", values: ["ephemeral"], default: "ephemeral", description: "Cache control" },
     cache_ttl: { type: "string", values: ["5m", "1h"], default: "5m", description: "Cache TTL" },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
   },
   google: {
     temperature: { type: "number", min: 0, max: 2, default: 0.7, description: "Controls randomness" },
@@ -239,12 +678,27 @@ export const PARAM_SPECS: Record<Provider, Record<string, ParamSpec>> = {
     topK: { type: "number", min: 0, default: 40, description: "Top-K sampling" },
     frequencyPenalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
     presencePenalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
-    stopSequences: { type: "string", description: "Stop sequences" },
+    stopSequences: { type: "string[]", maxItems: 5, description: "Stop sequences" },
     candidateCount: { type: "number", min: 1, default: 1, description: "Candidate count" },
     stream: { type: "boolean", default: false, description: "Stream response" },
     seed: { type: "number", description: "Random seed" },
-    responseMimeType: { type: "string", description: "Response MIME type" },
-    responseSchema: { type: "string", description: "Response schema" },
+    thinkingBudget: { type: "number", min: -1, max: 32768, description: "Thinking token budget (-1 for dynamic, 0 to turn off)" },
+    responseMimeType: { type: "string", description: "Response MIME type (application/json for JSON output)" },
+    responseSchema: { type: "string", description: "JSON Schema for structured output" },
+  },
+  vertex: {
+    temperature: { type: "number", min: 0, max: 2, default: 0.7, description: "Controls randomness" },
+    max_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens" },
+    top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
+    top_k: { type: "number", min: 0, default: 40, description: "Top-K sampling" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    stop: { type: "string[]", description: "Stop sequences" },
+    n: { type: "number", min: 1, default: 1, description: "Completions count" },
+    seed: { type: "number", description: "Random seed" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+    project: { type: "string", description: "Google Cloud project ID" },
+    location: { type: "string", description: "Vertex AI location (e.g. us-central1)" },
   },
   mistral: {
     temperature: { type: "number", min: 0, max: 1, default: 0.7, description: "Controls randomness" },
@@ -252,12 +706,14 @@ export const PARAM_SPECS: Record<Provider, Record<string, ParamSpec>> = {
     top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
     frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
     presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
-    stop: { type: "string", description: "Stop sequences" },
+    stop: { type: "string[]", description: "Stop sequences" },
     n: { type: "number", min: 1, default: 1, description: "Completions count" },
     random_seed: { type: "number", description: "Random seed" },
     stream: { type: "boolean", default: false, description: "Stream response" },
     safe_prompt: { type: "boolean", default: false, description: "Enable safe prompt" },
     min_tokens: { type: "number", min: 0, default: 0, description: "Minimum tokens" },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
   },
   cohere: {
     temperature: { type: "number", min: 0, max: 1, default: 0.7, description: "Controls randomness" },
@@ -266,9 +722,103 @@ export const PARAM_SPECS: Record<Provider, Record<string, ParamSpec>> = {
     k: { type: "number", min: 0, max: 500, default: 40, description: "Top-K sampling (k)" },
     frequency_penalty: { type: "number", min: 0, max: 1, default: 0, description: "Penalize frequent tokens" },
     presence_penalty: { type: "number", min: 0, max: 1, default: 0, description: "Penalize repeated topics" },
-    stop_sequences: { type: "string", description: "Stop sequences" },
+    stop_sequences: { type: "string[]", maxItems: 5, description: "Stop sequences" },
     stream: { type: "boolean", default: false, description: "Stream response" },
     seed: { type: "number", description: "Random seed" },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
+  },
+  xai: {
+    temperature: { type: "number", min: 0, max: 2, default: 1, description: "Controls randomness" },
+    max_tokens: { type: "number", min: 1, description: "Maximum output tokens" },
+    top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    stop: { type: "string[]", description: "Stop sequences" },
+    n: { type: "number", min: 1, default: 1, description: "Completions count" },
+    seed: { type: "number", description: "Random seed" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+    reasoning_effort: { type: "string", values: ["low", "high"], default: "low", description: "Reasoning effort (grok-3-mini)" },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
+  },
+  deepseek: {
+    temperature: { type: "number", min: 0, max: 2, default: 1, description: "Controls randomness" },
+    max_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens" },
+    top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    stop: { type: "string[]", maxItems: 16, description: "Stop sequences" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+    json: { type: "boolean", default: false, description: "JSON output" },
+  },
+  groq: {
+    temperature: { type: "number", min: 0, max: 2, default: 1, description: "Controls randomness" },
+    max_completion_tokens: { type: "number", min: 1, description: "Maximum output tokens" },
+    top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    stop: { type: "string[]", maxItems: 4, description: "Stop sequences" },
+    n: { type: "number", min: 1, max: 1, default: 1, description: "Completions count (Groq only supports 1)" },
+    seed: { type: "number", description: "Random seed" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+    reasoning_effort: {
+      type: "string",
+      values: ["none", "default", "low", "medium", "high"],
+      description: "Reasoning effort (none/default for Qwen 3, low–high for GPT-OSS)",
+    },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
+  },
+  together: {
+    temperature: { type: "number", min: 0, max: 2, default: 0.7, description: "Controls randomness" },
+    max_tokens: { type: "number", min: 1, description: "Maximum output tokens" },
+    top_p: { type: "number", min: 0, max: 1, default: 0.7, description: "Nucleus sampling" },
+    top_k: { type: "number", min: 1, default: 50, description: "Top-K sampling" },
+    min_p: { type: "number", min: 0, max: 1, default: 0, description: "Minimum token probability" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    repetition_penalty: { type: "number", min: 0, default: 1, description: "Penalize repetition" },
+    stop: { type: "string[]", description: "Stop sequences" },
+    n: { type: "number", min: 1, max: 128, default: 1, description: "Completions count" },
+    seed: { type: "number", description: "Random seed" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
+  },
+  fireworks: {
+    temperature: { type: "number", min: 0, max: 2, default: 1, description: "Controls randomness" },
+    max_tokens: { type: "number", min: 1, default: 2000, description: "Maximum output tokens" },
+    top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
+    top_k: { type: "number", min: 0, max: 100, default: 0, description: "Top-K sampling (0 = disabled)" },
+    min_p: { type: "number", min: 0, max: 1, default: 0, description: "Minimum token probability" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    repetition_penalty: { type: "number", min: 0, max: 2, default: 1, description: "Penalize repetition" },
+    stop: { type: "string[]", maxItems: 4, description: "Stop sequences" },
+    n: { type: "number", min: 1, max: 128, default: 1, description: "Completions count" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+    reasoning_effort: { type: "string", values: ["low", "medium", "high"], default: "medium", description: "Reasoning effort" },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
+  },
+  perplexity: {
+    temperature: { type: "number", min: 0, max: 2, default: 0.2, description: "Controls randomness" },
+    max_tokens: { type: "number", min: 1, description: "Maximum output tokens" },
+    top_p: { type: "number", min: 0, max: 1, default: 0.9, description: "Nucleus sampling" },
+    top_k: { type: "number", min: 0, max: 2048, default: 0, description: "Top-K sampling (0 = disabled)" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+    reasoning_effort: { type: "string", values: ["low", "medium", "high"], default: "medium", description: "Reasoning effort (sonar-deep-research)" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
+    search_mode: { type: "string", values: ["web", "academic", "sec"], default: "web", description: "Search index" },
+    search_recency_filter: { type: "string", values: ["hour", "day", "week", "month", "year"], description: "Only search sources from this period" },
+    search_domain_filter: { type: "string[]", maxItems: 20, description: "Domains to search (prefix with - to exclude)" },
+    search_context_size: { type: "string", values: ["low", "medium", "high"], default: "low", description: "How much search context to retrieve" },
+    return_images: { type: "boolean", default: false, description: "Include images in the response" },
+    return_related_questions: { type: "boolean", default: false, description: "Include related questions in the response" },
+    disable_search: { type: "boolean", default: false, description: "Answer without searching the web" },
   },
   bedrock: {
     // Converse API inferenceConfig params
@@ -276,8 +826,9 @@ export const PARAM_SPECS: Record<Provider, Record<string, ParamSpec>> = {
     maxTokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens" },
     topP: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
     topK: { type: "number", min: 0, default: 40, description: "Top-K sampling" },
-    stopSequences: { type: "string", description: "Stop sequences" },
+    stopSequences: { type: "string[]", description: "Stop sequences" },
     stream: { type: "boolean", default: false, description: "Stream response" },
+    budget_tokens: { type: "number", min: 1024, description: "Extended thinking token budget (Claude)" },
     cache_control: { type: "string", values: ["ephemeral"], default: "ephemeral", description: "Cache control" },
     cache_ttl: { type: "string", values: ["5m", "1h"], default: "5m", description: "Cache TTL" },
   },
@@ -285,11 +836,12 @@ export const PARAM_SPECS: Record<Provider, Record<string, ParamSpec>> = {
     // Loose validation — proxies to many providers with varying ranges
     temperature: { type: "number", min: 0, max: 2, default: 0.7, description: "Controls randomness" },
     max_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens" },
+    max_completion_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens (reasoning models)" },
     top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
     top_k: { type: "number", min: 0, default: 40, description: "Top-K sampling" },
     frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
     presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
-    stop: { type: "string", description: "Stop sequences" },
+    stop: { type: "string[]", description: "Stop sequences" },
     n: { type: "number", min: 1, default: 1, description: "Completions count" },
     seed: { type: "number", description: "Random seed" },
     stream: { type: "boolean", default: false, description: "Stream response" },
@@ -299,16 +851,24 @@ export const PARAM_SPECS: Record<Provider, Record<string, ParamSpec>> = {
       default: "medium",
       description: "Reasoning effort",
     },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
+    provider_order: { type: "string[]", description: "Providers to try, in order" },
+    allow_fallbacks: { type: "boolean", default: true, description: "Fall back to providers outside provider_order" },
+    data_collection: { type: "string", values: ["allow", "deny"], default: "allow", description: "Use providers that may store or train on prompts" },
+    models: { type: "string[]", description: "Fallback models, tried in order" },
+    transforms: { type: "string[]", values: ["middle-out"], description: "Prompt transforms" },
   },
   vercel: {
     // Loose validation — proxies to many providers with varying ranges
     temperature: { type: "number", min: 0, max: 2, default: 0.7, description: "Controls randomness" },
     max_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens" },
+    max_completion_tokens: { type: "number", min: 1, default: 4096, description: "Maximum output tokens (reasoning models)" },
     top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
     top_k: { type: "number", min: 0, default: 40, description: "Top-K sampling" },
     frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
     presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
-    stop: { type: "string", description: "Stop sequences" },
+    stop: { type: "string[]", description: "Stop sequences" },
     n: { type: "number", min: 1, default: 1, description: "Completions count" },
     seed: { type: "number", description: "Random seed" },
     stream: { type: "boolean", default: false, description: "Stream response" },
@@ -318,9 +878,214 @@ export const PARAM_SPECS: Record<Provider, Record<string, ParamSpec>> = {
       default: "medium",
       description: "Reasoning effort",
     },
+    json: { type: "boolean", default: false, description: "JSON output" },
+    schema: { type: "string", description: "JSON Schema for structured output" },
+    provider_order: { type: "string[]", description: "Providers to try, in order" },
+    models: { type: "string[]", description: "Fallback models, tried in order" },
+  },
+  ollama: {
+    temperature: { type: "number", min: 0, max: 2, default: 0.8, description: "Controls randomness" },
+    num_predict: { type: "number", min: -2, default: -1, description: "Maximum output tokens (-1 = unlimited, -2 = fill context)" },
+    top_p: { type: "number", min: 0, max: 1, default: 0.9, description: "Nucleus sampling" },
+    top_k: { type: "number", min: 0, default: 40, description: "Top-K sampling" },
+    min_p: { type: "number", min: 0, max: 1, default: 0, description: "Minimum token probability" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    repeat_penalty: { type: "number", min: 0, default: 1.1, description: "Penalize repetition" },
+    stop: { type: "string[]", description: "Stop sequences" },
+    seed: { type: "number", description: "Random seed" },
+    stream: { type: "boolean", default: true, description: "Stream response" },
+    num_ctx: { type: "number", min: 1, default: 2048, description: "Context window size" },
+    keep_alive: { type: "string", default: "5m", description: "How long the model stays loaded" },
+  },
+  vllm: {
+    temperature: { type: "number", min: 0, max: 2, default: 1, description: "Controls randomness" },
+    max_tokens: { type: "number", min: 1, description: "Maximum output tokens" },
+    min_tokens: { type: "number", min: 0, default: 0, description: "Minimum tokens" },
+    top_p: { type: "number", min: 0, max: 1, default: 1, description: "Nucleus sampling" },
+    top_k: { type: "number", min: -1, default: -1, description: "Top-K sampling (-1 = disabled)" },
+    min_p: { type: "number", min: 0, max: 1, default: 0, description: "Minimum token probability" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    repetition_penalty: { type: "number", min: 0, default: 1, description: "Penalize repetition" },
+    stop: { type: "string[]", description: "Stop sequences" },
+    n: { type: "number", min: 1, default: 1, description: "Completions count" },
+    seed: { type: "number", description: "Random seed" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+  },
+  lmstudio: {
+    temperature: { type: "number", min: 0, max: 2, default: 0.8, description: "Controls randomness" },
+    max_tokens: { type: "number", min: -1, default: -1, description: "Maximum output tokens (-1 = unlimited)" },
+    top_p: { type: "number", min: 0, max: 1, default: 0.95, description: "Nucleus sampling" },
+    top_k: { type: "number", min: 0, default: 40, description: "Top-K sampling" },
+    min_p: { type: "number", min: 0, max: 1, default: 0.05, description: "Minimum token probability" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    repeat_penalty: { type: "number", min: 0, default: 1.1, description: "Penalize repetition" },
+    stop: { type: "string[]", description: "Stop sequences" },
+    seed: { type: "number", description: "Random seed" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
+  },
+  llamacpp: {
+    temperature: { type: "number", min: 0, max: 2, default: 0.8, description: "Controls randomness" },
+    max_tokens: { type: "number", min: -1, default: -1, description: "Maximum output tokens (-1 = unlimited)" },
+    top_p: { type: "number", min: 0, max: 1, default: 0.95, description: "Nucleus sampling" },
+    top_k: { type: "number", min: 0, default: 40, description: "Top-K sampling" },
+    min_p: { type: "number", min: 0, max: 1, default: 0.05, description: "Minimum token probability" },
+    frequency_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize frequent tokens" },
+    presence_penalty: { type: "number", min: -2, max: 2, default: 0, description: "Penalize repeated topics" },
+    repeat_penalty: { type: "number", min: 0, default: 1.1, description: "Penalize repetition" },
+    stop: { type: "string[]", description: "Stop sequences" },
+    seed: { type: "number", description: "Random seed" },
+    stream: { type: "boolean", default: false, description: "Stream response" },
   },
 };
 
+/** Vertex AI params that apply regardless of the model's publisher. */
+export const VERTEX_PLATFORM_PARAMS = ["project", "location"];
+
+/**
+ * Canonical → provider-specific param map for a provider/sub-provider pair.
+ * Gateways speak one dialect for every model; Vertex AI speaks each
+ * publisher's native dialect (Claude on Vertex takes Anthropic params).
+ */
+export function paramMapFor(
+  provider: Provider,
+  subProvider?: Provider,
+): Record<string, string> {
+  if (provider !== "vertex" || !subProvider) return PROVIDER_PARAMS[provider];
+  const map = { ...PROVIDER_PARAMS[subProvider] };
+  for (const name of VERTEX_PLATFORM_PARAMS) map[name] = name;
+  return map;
+}
+
+/**
+ * Whether a param takes a list on some provider (`stop`, `stop_sequences`,
+ * `models`), so repeated query keys collect into one list value.
+ */
+export function isListParam(key: string): boolean {
+  const canonical = resolveAlias(key);
+  return (Object.keys(PROVIDER_PARAMS) as Provider[]).some((provider) => {
+    const specs = PARAM_SPECS[provider];
+    const mapped = PROVIDER_PARAMS[provider][canonical];
+    return (
+      specs[key]?.type === "string[]" ||
+      (mapped !== undefined && specs[mapped]?.type === "string[]")
+    );
+  });
+}
+
+/** Param specs matching `paramMapFor()`. */
+export function paramSpecsFor(
+  provider: Provider,
+  subProvider?: Provider,
+): Record<string, ParamSpec> {
+  if (provider !== "vertex" || !subProvider) return PARAM_SPECS[provider];
+  const specs = { ...PARAM_SPECS[subProvider] };
+  for (const name of VERTEX_PLATFORM_PARAMS) specs[name] = PARAM_SPECS.vertex[name];
+  return specs;
+}
+
+/**
+ * Effort levels from least to most, spanning every provider's vocabulary
+ * (OpenAI's `none`…`xhigh`, Anthropic's `low`…`max`).
+ */
+export const EFFORT_LEVELS = [
+  "none",
+  "minimal",
+  "low",
+  "medium",
+  "high",
+  "xhigh",
+  "max",
+] as const;
+
+/**
+ * Thinking token budget standing in for each effort level, for providers
+ * that take a budget instead of an effort param (Gemini, Claude on Bedrock).
+ * Clamped to the provider's budget range when applied.
+ */
+export const EFFORT_THINKING_BUDGETS: Record<(typeof EFFORT_LEVELS)[number], number> = {
+  none: 0,
+  minimal: 1024,
+  low: 2048,
+  medium: 8192,
+  high: 16384,
+  xhigh: 24576,
+  max: 32768,
+};
+
+/**
+ * Tokens of `max_tokens` a generated thinking budget leaves for the answer
+ * itself, since the budget counts against `max_tokens`.
+ */
+export const THINKING_OUTPUT_RESERVE = 1024;
+
+/**
+ * The thinking budget for an effort level on a provider that only takes
+ * budgets: `EFFORT_THINKING_BUDGETS`, clamped to the budget's range and
+ * leaving `THINKING_OUTPUT_RESERVE` tokens of `maxTokens` for output.
+ * Returns `undefined` when no budget fits — `none` where thinking can't be
+ * turned off by budget, or a `maxTokens` too small for the minimum budget
+ * plus the reserve.
+ */
+export function effortThinkingBudget(
+  effort: keyof typeof EFFORT_THINKING_BUDGETS,
+  range: { min?: number; max?: number } = {},
+  maxTokens?: number,
+): number | undefined {
+  const budget = EFFORT_THINKING_BUDGETS[effort];
+  const min = range.min ?? -Infinity;
+  if (budget === 0 && min > 0) return undefined;
+  const clamped = Math.min(range.max ?? Infinity, Math.max(min, budget));
+  // Turning thinking off always fits
+  if (maxTokens === undefined || clamped === 0) return clamped;
+  const room = maxTokens - THINKING_OUTPUT_RESERVE;
+  if (clamped <= room) return clamped;
+  return room < Math.max(min, 1) ? undefined : room;
+}
+
+/**
+ * The sampling param that keeps Claude from extended thinking, as
+ * `name=value`, or `undefined` if there is none. Thinking needs temperature
+ * 1 (or unset), top_p of at least 0.95, and no top_k.
+ */
+export function claudeThinkingConflict(
+  sampling: Partial<Record<"temperature" | "top_p" | "top_k", string>>,
+): string | undefined {
+  const { temperature, top_p: topP, top_k: topK } = sampling;
+  if (temperature !== undefined && Number(temperature) !== 1) return `temperature=${temperature}`;
+  if (topP !== undefined && Number(topP) < 0.95) return `top_p=${topP}`;
+  if (topK !== undefined) return `top_k=${topK}`;
+  return undefined;
+}
+
+/**
+ * Map an effort value onto the closest level in another vocabulary.
+ * Ties go to the higher level, so `xhigh` becomes Anthropic's `max`. Returns `undefined` for values outside
+ * `EFFORT_LEVELS` or an empty vocabulary.
+ */
+export function mapEffort(
+  value: string,
+  accepted: readonly string[],
+): string | undefined {
+  const levels: readonly string[] = EFFORT_LEVELS;
+  const rank = levels.indexOf(value);
+  if (rank === -1) return undefined;
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of accepted) {
+    const candidateRank = levels.indexOf(candidate);
+    if (candidateRank === -1) continue;
+    const distance = Math.abs(candidateRank - rank);
+    if (distance < bestDistance || (distance === bestDistance && candidateRank > rank)) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
 /** OpenAI reasoning models don't support standard sampling params. */
 export function isReasoningModel(model: string): boolean {
   // Strip gateway prefix: "openai/o3" → "o3"
@@ -330,18 +1095,62 @@ export function isReasoningModel(model: string): boolean {
 
 /** Providers that can route to OpenAI models (and need reasoning-model checks). */
 export function canHostOpenAIModels(provider: Provider): boolean {
-  return provider === "openai" || provider === "openrouter" || provider === "vercel";
+  return provider === "openai" || provider === "azure" || isGatewayProvider(provider);
 }
 
+/**
+ * Whether a provider/model pair targets an OpenAI reasoning model.
+ * Azure deployments have arbitrary names, so any deployment whose name
+ * contains an o-series token (e.g. "prod-o3-mini") is treated as one.
+ */
+export function isReasoningTarget(provider: Provider, model: string): boolean {
+  if (!canHostOpenAIModels(provider)) return false;
+  if (provider === "azure") return /(?:^|[-_.])o[134](?:[-_.]|$)/.test(model);
+  return isReasoningModel(model);
+}
+
+/** Canonical gateway routing params — they configure the gateway, not the sub-provider. */
+export const GATEWAY_ROUTING_PARAMS = new Set([
+  "provider_order",
+  "allow_fallbacks",
+  "data_collection",
+  "models",
+  "transforms",
+]);
+
+/**
+ * Provider slugs each gateway accepts in `provider_order`. Gateways add
+ * providers often, so these aren't exhaustive.
+ */
+export const GATEWAY_PROVIDER_SLUGS: Partial<Record<Provider, string[]>> = {
+  openrouter: [
+    "openai", "azure", "anthropic", "amazon-bedrock", "google-vertex", "google-ai-studio",
+    "mistral", "cohere", "deepseek", "x-ai", "groq", "together", "fireworks", "perplexity",
+    "deepinfra", "cerebras", "novita", "lambda", "nebius", "sambanova", "hyperbolic",
+  ],
+  vercel: [
+    "openai", "azure", "anthropic", "bedrock", "vertex", "google", "mistral", "cohere",
+    "deepseek", "xai", "groq", "togetherai", "fireworks", "perplexity", "deepinfra",
+    "cerebras", "novita", "baseten", "inception", "moonshotai",
+  ],
+};
+
 /** Whether this provider is a gateway/router that proxies to other providers. */
 export function isGatewayProvider(provider: Provider): boolean {
-  return provider === "openrouter" || provider === "vercel";
+  if (provider === "openrouter" || provider === "vercel") return true;
+  return customProviders.some((p) => p.id === provider && p.gateway);
 }
 
+/** Gateway model prefixes that differ from the provider ID (OpenRouter's "x-ai/grok-4"). */
+const GATEWAY_MODEL_PREFIXES: Record<string, Provider> = {
+  "x-ai": "xai",
+};
+
 /**
  * Extract the underlying provider from a gateway model string.
- * e.g. "anthropic/claude-sonnet-4-5" → "anthropic"
- * Returns undefined for unknown prefixes (qwen, deepseek, etc.) or models without "/".
+ * e.g. "anthropic/claude-sonnet-4-5" → "anthropic", "x-ai/grok-4" → "xai"
+ * Returns undefined for unknown prefixes (qwen, meta-llama, etc.) or models without "/".
+ * Hosts like Groq never appear as prefixes, since gateways name models by vendor.
  */
 export function detectGatewaySubProvider(
   model: string,
@@ -349,7 +1158,18 @@ export function detectGatewaySubProvider(
   const slash = model.indexOf("/");
   if (slash < 1) return undefined;
   const prefix = model.slice(0, slash);
-  const direct: Provider[] = ["openai", "anthropic", "google", "mistral", "cohere"];
+  if (Object.hasOwn(GATEWAY_MODEL_PREFIXES, prefix)) return GATEWAY_MODEL_PREFIXES[prefix];
+  const direct: Provider[] = [
+    "openai",
+    "anthropic",
+    "google",
+    "mistral",
+    "cohere",
+    "xai",
+    "deepseek",
+    "perplexity",
+    ...customProviders.filter((p) => !p.gateway).map((p) => p.id),
+  ];
   return direct.find((p) => p === prefix);
 }
 
@@ -361,6 +1181,23 @@ export const REASONING_MODEL_UNSUPPORTED = new Set([
   "n",
 ]);
 
+/**
+ * Sampling params DeepSeek's reasoning models accept but ignore — unlike
+ * OpenAI's, they don't reject the request.
+ */
+export const DEEPSEEK_REASONER_IGNORED = new Set([
+  "temperature",
+  "top_p",
+  "frequency_penalty",
+  "presence_penalty",
+]);
+
+/** DeepSeek reasoning models: "deepseek-reasoner", or "deepseek-r1" behind a gateway. */
+export function isDeepSeekReasoner(model: string): boolean {
+  const name = model.includes("/") ? model.split("/").pop()! : model;
+  return /^deepseek-(?:reasoner|r1)(?:$|[-:])/i.test(name);
+}
+
 /**
  * Bedrock model IDs are prefixed with the vendor name.
  * e.g. "anthropic.claude-sonnet-4-5-20250929-v1:0"
@@ -380,9 +1217,9 @@ export function detectBedrockModelFamily(
   // and global inference profiles (e.g. "global.anthropic.claude-sonnet-4-5...")
   const parts = model.split(".");
 
-  // If first part is a region prefix (us, eu, apac) or global, skip it
+  // If first part is an inference profile prefix (us, eu, apac, global, ...), skip it
   let prefix = parts[0];
-  if (["us", "eu", "apac", "global"].includes(prefix) && parts.length > 1) {
+  if (detectBedrockInferenceProfile(model)) {
     prefix = parts[1];
   }
 
@@ -397,6 +1234,102 @@ export function detectBedrockModelFamily(
   return families.find((f) => prefix === f);
 }
 
+/**
+ * Geography prefix of a cross-region (or global) inference profile ID.
+ * e.g. "us.anthropic.claude-sonnet-4-5-20250929-v1:0" → "us"
+ */
+export type BedrockInferenceProfile =
+  | "us"
+  | "us-gov"
+  | "eu"
+  | "apac"
+  | "jp"
+  | "au"
+  | "ca"
+  | "global";
+
+/** Which source regions may call each inference profile geography. */
+const BEDROCK_PROFILE_REGIONS: Record<BedrockInferenceProfile, RegExp> = {
+  us: /^us-(?:east|west)-\d$/,
+  "us-gov": /^us-gov-/,
+  eu: /^eu-/,
+  apac: /^ap-/,
+  jp: /^ap-northeast-[13]$/,
+  au: /^ap-southeast-[24]$/,
+  ca: /^ca-/,
+  global: /./,
+};
+
+/** Regions where Bedrock runtime is available. */
+export const BEDROCK_REGIONS = [
+  "us-east-1", "us-east-2", "us-west-1", "us-west-2",
+  "us-gov-east-1", "us-gov-west-1",
+  "ca-central-1", "ca-west-1", "sa-east-1",
+  "eu-central-1", "eu-central-2", "eu-north-1", "eu-south-1", "eu-south-2",
+  "eu-west-1", "eu-west-2", "eu-west-3",
+  "ap-northeast-1", "ap-northeast-2", "ap-northeast-3",
+  "ap-south-1", "ap-south-2",
+  "ap-southeast-1", "ap-southeast-2", "ap-southeast-3", "ap-southeast-4",
+  "ap-southeast-5", "ap-southeast-7",
+  "me-central-1", "me-south-1", "il-central-1",
+];
+
+/**
+ * Extract the AWS region from a Bedrock host.
+ * e.g. "bedrock-runtime.us-east-1.amazonaws.com" → "us-east-1"
+ */
+export function detectBedrockRegion(host: string): string | undefined {
+  const match = /^bedrock(?:-runtime)?(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com(?::\d+)?$/.exec(
+    host,
+  );
+  return match?.[1];
+}
+
+/** Extract the inference profile prefix from a Bedrock model ID, if it has one. */
+export function detectBedrockInferenceProfile(
+  model: string,
+): BedrockInferenceProfile | undefined {
+  const dot = model.indexOf(".");
+  if (dot < 1 || model.indexOf(".", dot + 1) === -1) return undefined;
+  const prefix = model.slice(0, dot);
+  return Object.hasOwn(BEDROCK_PROFILE_REGIONS, prefix)
+    ? (prefix as BedrockInferenceProfile)
+    : undefined;
+}
+
+/** Whether an inference profile can be invoked from a source region. */
+export function bedrockProfileMatchesRegion(
+  profile: BedrockInferenceProfile,
+  region: string,
+): boolean {
+  return BEDROCK_PROFILE_REGIONS[profile].test(region);
+}
+
+/** Geography profile to suggest for a source region, if any. */
+export function bedrockProfileForRegion(
+  region: string,
+): BedrockInferenceProfile | undefined {
+  const geographies: BedrockInferenceProfile[] = ["us-gov", "us", "eu", "apac", "ca"];
+  return geographies.find((p) => BEDROCK_PROFILE_REGIONS[p].test(region));
+}
+
+/**
+ * Newer Bedrock models that only support on-demand throughput through an
+ * inference profile, not through their base model ID.
+ */
+const BEDROCK_PROFILE_ONLY_MODELS = [
+  /^anthropic\.claude-(?:3-7-sonnet|(?:opus|sonnet|haiku)-4)/,
+  /^meta\.llama(?:3-[23]|4)/,
+  /^amazon\.nova-premier/,
+  /^deepseek\./,
+];
+
+/** Whether a base (non-profile) Bedrock model ID likely needs an inference profile. */
+export function bedrockRequiresInferenceProfile(model: string): boolean {
+  if (detectBedrockInferenceProfile(model)) return false;
+  return BEDROCK_PROFILE_ONLY_MODELS.some((re) => re.test(model));
+}
+
 /** Whether a Bedrock model supports prompt caching (Claude and Nova only). */
 export function bedrockSupportsCaching(model: string): boolean {
   const family = detectBedrockModelFamily(model);
@@ -408,26 +1341,162 @@ export function bedrockSupportsCaching(model: string): boolean {
 /** Cache value normalization per provider. */
 export const CACHE_VALUES: Record<Provider, string | undefined> = {
   openai: undefined, // OpenAI auto-caches; no explicit param
+  azure: undefined, // Same automatic caching as OpenAI
   anthropic: "ephemeral",
   google: undefined, // Google uses explicit caching API, not a param
+  vertex: undefined, // Claude on Vertex uses Anthropic's cache values instead
   mistral: undefined,
   cohere: undefined,
+  xai: undefined,
+  deepseek: undefined,
+  groq: undefined,
+  together: undefined,
+  fireworks: undefined,
+  perplexity: undefined,
   bedrock: "ephemeral", // Supported for Claude models on Bedrock
   openrouter: undefined, // Depends on underlying provider
   vercel: undefined, // Depends on underlying provider
+  ollama: undefined, // Local runtimes reuse the KV cache automatically
+  vllm: undefined,
+  lmstudio: undefined,
+  llamacpp: undefined,
 };
 
 /** Valid cache TTL values per provider. */
 export const CACHE_TTLS: Record<Provider, string[] | undefined> = {
   openai: undefined,
+  azure: undefined,
   anthropic: ["5m", "1h"],
   google: undefined,
+  vertex: undefined,
   mistral: undefined,
   cohere: undefined,
+  xai: undefined,
+  deepseek: undefined,
+  groq: undefined,
+  together: undefined,
+  fireworks: undefined,
+  perplexity: undefined,
   bedrock: ["5m", "1h"], // Claude on Bedrock uses same TTLs as direct Anthropic
   openrouter: undefined,
   vercel: undefined,
+  ollama: undefined,
+  vllm: undefined,
+  lmstudio: undefined,
+  llamacpp: undefined,
 };
 
 /** Match a duration expression like "5m", "1h", "30m". */
 export const DURATION_RE = /^\d+[mh]$/;
+
+/**
+ * Definition of a custom provider for `registerProvider()`.
+ */
+export interface ProviderDefinition {
+  /** Provider identifier. Augment `CustomProviders` to make it a `Provider`. */
+  id: string;
+  /** Hostname matcher used by `detectProvider()`. */
+  match: HostMatcher;
+  /** Canonical param name → provider-specific API param name. */
+  params: Record<string, string>;
+  /** Validation specs keyed by provider-specific param name. */
+  specs?: Record<string, ParamSpec>;
+  /** Canonical param specs for UIs. Derived from `specs` when omitted. */
+  canonicalSpecs?: Record<string, CanonicalParamSpec>;
+  /** UI metadata. Adds an entry to `PROVIDER_META` when given. */
+  meta?: Omit<ProviderMeta, "id">;
+  /** Suggested model IDs. */
+  models?: string[];
+  /** Value for `cache=true`, if the provider takes an explicit cache param. */
+  cache?: string;
+  /** Valid cache TTL values, if the provider accepts them. */
+  cacheTtls?: string[];
+  /** Whether the provider is a gateway that routes `vendor/model` IDs. */
+  gateway?: boolean;
+}
+
+const BUILT_IN_PROVIDERS = new Set<string>(Object.keys(PROVIDER_PARAMS));
+
+/** Derive canonical specs from provider-specific specs via the param map. */
+function deriveCanonicalSpecs(
+  params: Record<string, string>,
+  specs: Record<string, ParamSpec>,
+): Record<string, CanonicalParamSpec> {
+  const canonical: Record<string, CanonicalParamSpec> = {};
+  for (const [name, providerName] of Object.entries(params)) {
+    const spec = specs[providerName];
+    if (!spec) continue;
+    canonical[name] = {
+      type: spec.values
+        ? "enum"
+        : spec.type === "string[]"
+          ? "string"
+          : spec.type,
+      min: spec.min,
+      max: spec.max,
+      values: spec.values,
+      default: spec.default,
+      description: spec.description,
+    };
+  }
+  return canonical;
+}
+
+/**
+ * Register a custom provider at runtime (e.g. an internal gateway).
+ *
+ * The provider is detected by `detectProvider()` before the built-in rules,
+ * and its param maps and specs are used by `normalize()` and `validate()`.
+ * Re-registering a custom ID replaces the previous definition; built-in
+ * providers can't be overridden.
+ *
+ * @example
+ * ```ts
+ * registerProvider({
+ *   id: "acme",
+ *   match: "llm.acme.internal",
+ *   params: { temperature: "temperature", max_tokens: "max_new_tokens" },
+ *   specs: { temperature: { type: "number", min: 0, max: 1 } },
+ * });
+ * ```
+ */
+export function registerProvider(definition: ProviderDefinition): void {
+  const id = definition.id as Provider;
+  if (BUILT_IN_PROVIDERS.has(id)) {
+    throw new Error(`Cannot register "${id}": it is a built-in provider`);
+  }
+  unregisterProvider(id);
+
+  const specs = definition.specs ?? {};
+  customProviders.push({
+    id,
+    match: definition.match,
+    gateway: definition.gateway ?? false,
+  });
+  PROVIDER_PARAMS[id] = definition.params;
+  PARAM_SPECS[id] = specs;
+  CACHE_VALUES[id] = definition.cache;
+  CACHE_TTLS[id] = definition.cacheTtls;
+  CANONICAL_PARAM_SPECS[id] =
+    definition.canonicalSpecs ?? deriveCanonicalSpecs(definition.params, specs);
+  MODELS[id] = definition.models ?? [];
+  if (definition.meta) PROVIDER_META.push({ id, ...definition.meta });
+}
+
+/** Remove a provider added with `registerProvider()`. Returns false if it wasn't registered. */
+export function unregisterProvider(id: string): boolean {
+  const index = customProviders.findIndex((p) => p.id === id);
+  if (index === -1) return false;
+
+  const provider = id as Provider;
+  customProviders.splice(index, 1);
+  delete PROVIDER_PARAMS[provider];
+  delete PARAM_SPECS[provider];
+  delete CACHE_VALUES[provider];
+  delete CACHE_TTLS[provider];
+  delete CANONICAL_PARAM_SPECS[provider];
+  delete MODELS[provider];
+  const metaIndex = PROVIDER_META.findIndex((m) => m.id === provider);
+  if (metaIndex !== -1) PROVIDER_META.splice(metaIndex, 1);
+  return true;
+}
@@ -17,13 +17,25 @@ export interface ProviderMeta {
 
 export const PROVIDER_META: ProviderMeta[] = [
   { id: "openai",     name: "OpenAI",     host: "api.openai.com",                          color: "#10a37f" },
+  { id: "azure",      name: "Azure OpenAI", host: "my-resource.openai.azure.com",            color: "#0078d4" },
   { id: "anthropic",  name: "Anthropic",   host: "api.anthropic.com",                       color: "#e8956a" },
   { id: "google",     name: "Google",      host: "generativelanguage.googleapis.com",        color: "#4285f4" },
+  { id: "vertex",     name: "Vertex AI",   host: "us-central1-aiplatform.googleapis.com",   color: "#34a853" },
   { id: "mistral",    name: "Mistral",     host: "api.mistral.ai",                          color: "#ff7000" },
   { id: "cohere",     name: "Cohere",      host: "api.cohere.com",                          color: "#39594d" },
+  { id: "xai",        name: "xAI",         host: "api.x.ai",                                color: "#000000" },
+  { id: "deepseek",   name: "DeepSeek",    host: "api.deepseek.com",                        color: "#4d6bfe" },
+  { id: "groq",       name: "Groq",        host: "api.groq.com",                            color: "#f55036" },
+  { id: "together",   name: "Together AI", host: "api.together.xyz",                        color: "#0f6fff" },
+  { id: "fireworks",  name: "Fireworks AI", host: "api.fireworks.ai",                       color: "#6720ff" },
+  { id: "perplexity", name: "Perplexity",  host: "api.perplexity.ai",                       color: "#20808d" },
   { id: "bedrock",    name: "Bedrock",     host: "bedrock-runtime.us-east-1.amazonaws.com", color: "#ff9900" },
   { id: "openrouter", name: "OpenRouter",  host: "openrouter.ai",                           color: "#818cf8" },
   { id: "vercel",     name: "Vercel",      host: "gateway.ai.vercel.app",                   color: "#ededed" },
+  { id: "ollama",     name: "Ollama",      host: "localhost:11434",                         color: "#2f2f2f" },
+  { id: "vllm",       name: "vLLM",        host: "localhost:8000",                          color: "#fdb515" },
+  { id: "lmstudio",   name: "LM Studio",   host: "localhost:1234",                          color: "#6e56cf" },
+  { id: "llamacpp",   name: "llama.cpp",   host: "localhost:8080",                          color: "#8d6e63" },
 ];
 
 /**
@@ -36,6 +48,11 @@ export const MODELS: Record<Provider, string[]> = {
     "gpt-4.1", "gpt-4.1-mini", "gpt-4.1-nano",
     "o3", "o3-mini", "o4-mini", "o1-pro",
   ],
+  azure: [
+    // Deployment names — these mirror the model names by convention
+    "gpt-5.2", "gpt-4.1", "gpt-4.1-mini",
+    "o4-mini", "o3",
+  ],
   anthropic: [
     "claude-opus-4-6", "claude-sonnet-4-6",
     "claude-sonnet-4-5", "claude-haiku-4-5",
@@ -44,6 +61,11 @@ export const MODELS: Record<Provider, string[]> = {
     "gemini-3-pro-preview", "gemini-3-flash-preview",
     "gemini-2.5-pro", "gemini-2.5-flash",
   ],
+  vertex: [
+    "gemini-2.5-pro", "gemini-2.5-flash",
+    "claude-sonnet-4-5@20250929", "claude-opus-4-6",
+    "publishers/meta/models/llama-4-maverick-17b-128e-instruct-maas",
+  ],
   mistral: [
     "mistral-large-latest", "mistral-medium-latest",
     "mistral-small-latest", "codestral-latest",
@@ -54,6 +76,30 @@ export const MODELS: Record<Provider, string[]> = {
     "command-r-plus-08-2024", "command-r-08-2024",
     "command-r7b-12-2024",
   ],
+  xai: [
+    "grok-4", "grok-4-fast-reasoning", "grok-4-fast-non-reasoning",
+    "grok-3", "grok-3-mini", "grok-code-fast-1",
+  ],
+  deepseek: [
+    "deepseek-chat", "deepseek-reasoner",
+  ],
+  groq: [
+    "llama-3.3-70b-versatile", "llama-3.1-8b-instant",
+    "openai/gpt-oss-120b", "openai/gpt-oss-20b", "qwen/qwen3-32b",
+  ],
+  together: [
+    "meta-llama/Llama-3.3-70B-Instruct-Turbo", "deepseek-ai/DeepSeek-R1",
+    "deepseek-ai/DeepSeek-V3", "Qwen/Qwen3-235B-A22B-Instruct-2507-tput",
+    "openai/gpt-oss-120b",
+  ],
+  fireworks: [
+    "accounts/fireworks/models/llama-v3p3-70b-instruct",
+    "accounts/fireworks/models/deepseek-r1", "accounts/fireworks/models/deepseek-v3",
+    "accounts/fireworks/models/qwen3-235b-a22b",
+  ],
+  perplexity: [
+    "sonar", "sonar-pro", "sonar-reasoning-pro", "sonar-deep-research",
+  ],
   bedrock: [
     "anthropic.claude-opus-4-6-v1", "anthropic.claude-sonnet-4-6-v1",
     "anthropic.claude-haiku-4-5-v1",
@@ -70,6 +116,19 @@ export const MODELS: Record<Provider, string[]> = {
     "google/gemini-3-flash-preview", "mistral/mistral-large-latest",
     "qwen/qwen2.5-pro",
   ],
+  ollama: [
+    "llama3.3", "qwen3", "gemma3", "mistral-small3.2", "deepseek-r1",
+  ],
+  vllm: [
+    "meta-llama/Llama-3.3-70B-Instruct", "Qwen/Qwen3-32B",
+    "mistralai/Mistral-Small-3.2-24B-Instruct-2506",
+  ],
+  lmstudio: [
+    "qwen3-8b", "gemma-3-12b-it", "llama-3.2-3b-instruct",
+  ],
+  llamacpp: [
+    "default",
+  ],
 };
 
 /**
@@ -97,6 +156,23 @@ export const CANONICAL_PARAM_SPECS: Record<Provider, Record<string, CanonicalPar
     seed:              { type: "number",                    default: "",   description: "Random seed" },
     stream:            { type: "boolean",                   default: false, description: "Stream response" },
     effort:            { type: "enum", values: ["none", "minimal", "low", "medium", "high", "xhigh"], default: "medium", description: "Reasoning effort" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
+  },
+  azure: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 0.7,  description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: 1,          default: 4096, description: "Maximum output tokens" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 1,    description: "Nucleus sampling" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    n:                 { type: "number",  min: 1,           default: 1,    description: "Completions count" },
+    seed:              { type: "number",                    default: "",   description: "Random seed" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
+    effort:            { type: "enum", values: ["minimal", "low", "medium", "high"], default: "medium", description: "Reasoning effort" },
+    api_version:       { type: "string",                    default: "2025-04-01-preview", description: "Azure OpenAI API version" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
   },
   anthropic: {
     temperature: { type: "number",  min: 0, max: 1, default: 0.7,  description: "Controls randomness" },
@@ -106,8 +182,11 @@ export const CANONICAL_PARAM_SPECS: Record<Provider, Record<string, CanonicalPar
     stop:        { type: "string",                   default: "",   description: "Stop sequences" },
     stream:      { type: "boolean",                  default: false, description: "Stream response" },
     effort:      { type: "enum", values: ["low", "medium", "high", "max"], default: "medium", description: "Thinking effort" },
+    thinking:    { type: "number",  min: 1024,                      description: "Extended thinking token budget" },
     cache:       { type: "enum", values: ["ephemeral"],   default: "ephemeral", description: "Cache control" },
     cache_ttl:   { type: "enum", values: ["5m", "1h"],    default: "5m",        description: "Cache TTL" },
+    json:        { type: "boolean",                  default: false, description: "JSON output" },
+    schema:      { type: "string",                                   description: "JSON Schema for structured output" },
   },
   google: {
     temperature:       { type: "number",  min: 0, max: 2,  default: 0.7,  description: "Controls randomness" },
@@ -120,6 +199,23 @@ export const CANONICAL_PARAM_SPECS: Record<Provider, Record<string, CanonicalPar
     n:                 { type: "number",  min: 1,           default: 1,    description: "Candidate count" },
     stream:            { type: "boolean",                   default: false, description: "Stream response" },
     seed:              { type: "number",                    default: "",   description: "Random seed" },
+    thinking:          { type: "number",  min: -1, max: 32768,             description: "Thinking token budget (-1 for dynamic, 0 to turn off)" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
+  },
+  vertex: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 0.7,  description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: 1,          default: 4096, description: "Maximum output tokens" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 1,    description: "Nucleus sampling" },
+    top_k:             { type: "number",  min: 0,          default: 40,   description: "Top-K sampling" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    n:                 { type: "number",  min: 1,           default: 1,    description: "Completions count" },
+    seed:              { type: "number",                    default: "",   description: "Random seed" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
+    project:           { type: "string",                    default: "",   description: "Google Cloud project ID" },
+    location:          { type: "string",                    default: "",   description: "Vertex AI location" },
   },
   mistral: {
     temperature:       { type: "number",  min: 0, max: 1,  default: 0.7,  description: "Controls randomness" },
@@ -133,6 +229,8 @@ export const CANONICAL_PARAM_SPECS: Record<Provider, Record<string, CanonicalPar
     stream:            { type: "boolean",                   default: false, description: "Stream response" },
     safe_prompt:       { type: "boolean",                   default: false, description: "Enable safe prompt" },
     min_tokens:        { type: "number",  min: 0,          default: 0,    description: "Minimum tokens" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
   },
   cohere: {
     temperature:       { type: "number",  min: 0, max: 1,       default: 0.7,  description: "Controls randomness" },
@@ -144,6 +242,96 @@ export const CANONICAL_PARAM_SPECS: Record<Provider, Record<string, CanonicalPar
     stop:              { type: "string",                         default: "",   description: "Stop sequences" },
     stream:            { type: "boolean",                        default: false, description: "Stream response" },
     seed:              { type: "number",                         default: "",   description: "Random seed" },
+    json:              { type: "boolean",                        default: false, description: "JSON output" },
+    schema:            { type: "string",                                         description: "JSON Schema for structured output" },
+  },
+  xai: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 1,    description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: 1,                         description: "Maximum output tokens" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 1,    description: "Nucleus sampling" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    n:                 { type: "number",  min: 1,           default: 1,    description: "Completions count" },
+    seed:              { type: "number",                    default: "",   description: "Random seed" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
+    effort:            { type: "enum", values: ["low", "high"], default: "low", description: "Reasoning effort (grok-3-mini)" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
+  },
+  deepseek: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 1,    description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: 1,          default: 4096, description: "Maximum output tokens" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 1,    description: "Nucleus sampling" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+  },
+  groq: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 1,    description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: 1,                         description: "Maximum output tokens" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 1,    description: "Nucleus sampling" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    n:                 { type: "number",  min: 1, max: 1,  default: 1,    description: "Completions count (Groq only supports 1)" },
+    seed:              { type: "number",                    default: "",   description: "Random seed" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
+    effort:            { type: "enum", values: ["none", "default", "low", "medium", "high"], description: "Reasoning effort (none/default for Qwen 3, low–high for GPT-OSS)" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
+  },
+  together: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 0.7,  description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: 1,                         description: "Maximum output tokens" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 0.7,  description: "Nucleus sampling" },
+    top_k:             { type: "number",  min: 1,          default: 50,   description: "Top-K sampling" },
+    min_p:             { type: "number",  min: 0, max: 1,  default: 0,    description: "Minimum token probability" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    repeat_penalty:    { type: "number",  min: 0,          default: 1,    description: "Penalize repetition" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    n:                 { type: "number",  min: 1, max: 128, default: 1,   description: "Completions count" },
+    seed:              { type: "number",                    default: "",   description: "Random seed" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
+  },
+  fireworks: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 1,    description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: 1,          default: 2000, description: "Maximum output tokens" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 1,    description: "Nucleus sampling" },
+    top_k:             { type: "number",  min: 0, max: 100, default: 0,   description: "Top-K sampling (0 = disabled)" },
+    min_p:             { type: "number",  min: 0, max: 1,  default: 0,    description: "Minimum token probability" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    repeat_penalty:    { type: "number",  min: 0, max: 2,  default: 1,    description: "Penalize repetition" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    n:                 { type: "number",  min: 1, max: 128, default: 1,   description: "Completions count" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
+    effort:            { type: "enum", values: ["low", "medium", "high"], default: "medium", description: "Reasoning effort" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
+  },
+  perplexity: {
+    temperature:              { type: "number",  min: 0, max: 2,    default: 0.2,  description: "Controls randomness" },
+    max_tokens:               { type: "number",  min: 1,                           description: "Maximum output tokens" },
+    top_p:                    { type: "number",  min: 0, max: 1,    default: 0.9,  description: "Nucleus sampling" },
+    top_k:                    { type: "number",  min: 0, max: 2048, default: 0,    description: "Top-K sampling (0 = disabled)" },
+    frequency_penalty:        { type: "number",  min: -2, max: 2,   default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:         { type: "number",  min: -2, max: 2,   default: 0,    description: "Penalize repeated topics" },
+    stream:                   { type: "boolean",                     default: false, description: "Stream response" },
+    effort:                   { type: "enum", values: ["low", "medium", "high"], default: "medium", description: "Reasoning effort (sonar-deep-research)" },
+    schema:                   { type: "string",                                      description: "JSON Schema for structured output" },
+    search_mode:              { type: "enum", values: ["web", "academic", "sec"], default: "web", description: "Search index" },
+    search_recency_filter:    { type: "enum", values: ["hour", "day", "week", "month", "year"],  description: "Only search sources from this period" },
+    search_domain_filter:     { type: "string",                                      description: "Domains to search (prefix with - to exclude)" },
+    search_context_size:      { type: "enum", values: ["low", "medium", "high"], default: "low", description: "How much search context to retrieve" },
+    return_images:            { type: "boolean",                     default: false, description: "Include images in the response" },
+    return_related_questions: { type: "boolean",                     default: false, description: "Include related questions in the response" },
+    disable_search:           { type: "boolean",                     default: false, description: "Answer without searching the web" },
   },
   bedrock: {
     temperature: { type: "number",  min: 0, max: 1, default: 0.7,  description: "Controls randomness" },
@@ -152,6 +340,7 @@ export const CANONICAL_PARAM_SPECS: Record<Provider, Record<string, CanonicalPar
     top_k:       { type: "number",  min: 0,         default: 40,   description: "Top-K sampling" },
     stop:        { type: "string",                   default: "",   description: "Stop sequences" },
     stream:      { type: "boolean",                  default: false, description: "Stream response" },
+    thinking:    { type: "number",  min: 1024,                      description: "Extended thinking token budget (Claude)" },
     cache:       { type: "enum", values: ["ephemeral"],   default: "ephemeral", description: "Cache control" },
     cache_ttl:   { type: "enum", values: ["5m", "1h"],    default: "5m",        description: "Cache TTL" },
   },
@@ -167,6 +356,13 @@ export const CANONICAL_PARAM_SPECS: Record<Provider, Record<string, CanonicalPar
     seed:              { type: "number",                    default: "",   description: "Random seed" },
     stream:            { type: "boolean",                   default: false, description: "Stream response" },
     effort:            { type: "enum", values: ["none", "minimal", "low", "medium", "high", "xhigh"], default: "medium", description: "Reasoning effort" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
+    provider_order:    { type: "string",                                    description: "Providers to try, in order" },
+    allow_fallbacks:   { type: "boolean",                   default: true, description: "Fall back to providers outside provider_order" },
+    data_collection:   { type: "enum", values: ["allow", "deny"], default: "allow", description: "Use providers that may store or train on prompts" },
+    models:            { type: "string",                                    description: "Fallback models, tried in order" },
+    transforms:        { type: "string",                                    description: "Prompt transforms (middle-out)" },
   },
   vercel: {
     temperature:       { type: "number",  min: 0, max: 2,  default: 0.7,  description: "Controls randomness" },
@@ -180,5 +376,65 @@ export const CANONICAL_PARAM_SPECS: Record<Provider, Record<string, CanonicalPar
     seed:              { type: "number",                    default: "",   description: "Random seed" },
     stream:            { type: "boolean",                   default: false, description: "Stream response" },
     effort:            { type: "enum", values: ["none", "minimal", "low", "medium", "high", "xhigh"], default: "medium", description: "Reasoning effort" },
+    json:              { type: "boolean",                   default: false, description: "JSON output" },
+    schema:            { type: "string",                                    description: "JSON Schema for structured output" },
+    provider_order:    { type: "string",                                    description: "Providers to try, in order" },
+    models:            { type: "string",                                    description: "Fallback models, tried in order" },
+  },
+  ollama: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 0.8,  description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: -2,         default: -1,   description: "Maximum output tokens (-1 = unlimited, -2 = fill context)" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 0.9,  description: "Nucleus sampling" },
+    top_k:             { type: "number",  min: 0,          default: 40,   description: "Top-K sampling" },
+    min_p:             { type: "number",  min: 0, max: 1,  default: 0,    description: "Minimum token probability" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    repeat_penalty:    { type: "number",  min: 0,          default: 1.1,  description: "Penalize repetition" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    seed:              { type: "number",                    default: "",   description: "Random seed" },
+    stream:            { type: "boolean",                   default: true, description: "Stream response" },
+    num_ctx:           { type: "number",  min: 1,          default: 2048, description: "Context window size" },
+    keep_alive:        { type: "string",                    default: "5m", description: "How long the model stays loaded" },
+  },
+  vllm: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 1,    description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: 1,                         description: "Maximum output tokens" },
+    min_tokens:        { type: "number",  min: 0,          default: 0,    description: "Minimum tokens" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 1,    description: "Nucleus sampling" },
+    top_k:             { type: "number",  min: -1,         default: -1,   description: "Top-K sampling (-1 = disabled)" },
+    min_p:             { type: "number",  min: 0, max: 1,  default: 0,    description: "Minimum token probability" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    repeat_penalty:    { type: "number",  min: 0,          default: 1,    description: "Penalize repetition" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    n:                 { type: "number",  min: 1,           default: 1,    description: "Completions count" },
+    seed:              { type: "number",                    default: "",   description: "Random seed" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
+  },
+  lmstudio: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 0.8,  description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: -1,         default: -1,   description: "Maximum output tokens (-1 = unlimited)" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 0.95, description: "Nucleus sampling" },
+    top_k:             { type: "number",  min: 0,          default: 40,   description: "Top-K sampling" },
+    min_p:             { type: "number",  min: 0, max: 1,  default: 0.05, description: "Minimum token probability" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    repeat_penalty:    { type: "number",  min: 0,          default: 1.1,  description: "Penalize repetition" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    seed:              { type: "number",                    default: "",   description: "Random seed" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
+  },
+  llamacpp: {
+    temperature:       { type: "number",  min: 0, max: 2,  default: 0.8,  description: "Controls randomness" },
+    max_tokens:        { type: "number",  min: -1,         default: -1,   description: "Maximum output tokens (-1 = unlimited)" },
+    top_p:             { type: "number",  min: 0, max: 1,  default: 0.95, description: "Nucleus sampling" },
+    top_k:             { type: "number",  min: 0,          default: 40,   description: "Top-K sampling" },
+    min_p:             { type: "number",  min: 0, max: 1,  default: 0.05, description: "Minimum token probability" },
+    frequency_penalty: { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize frequent tokens" },
+    presence_penalty:  { type: "number",  min: -2, max: 2, default: 0,    description: "Penalize repeated topics" },
+    repeat_penalty:    { type: "number",  min: 0,          default: 1.1,  description: "Penalize repetition" },
+    stop:              { type: "string",                    default: "",   description: "Stop sequences" },
+    seed:              { type: "number",                    default: "",   description: "Random seed" },
+    stream:            { type: "boolean",                   default: false, description: "Stream response" },
   },
 };
@@ -1,25 +1,55 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it } from "vitest";
+import { normalize } from "./normalize.js";
+import { parse } from "./parse.js";
+import { validate } from "./validate.js";
 import {
+  CACHE_VALUES,
   PROVIDER_META,
   MODELS,
   CANONICAL_PARAM_SPECS,
   PARAM_SPECS,
   PROVIDER_PARAMS,
+  bedrockProfileForRegion,
+  bedrockProfileMatchesRegion,
+  bedrockRequiresInferenceProfile,
+  detectAzureResource,
+  detectBedrockInferenceProfile,
+  detectBedrockModelFamily,
+  detectBedrockRegion,
   detectProvider,
   detectGatewaySubProvider,
+  detectVertexLocation,
+  detectVertexPublisher,
+  isDeepSeekReasoner,
   isGatewayProvider,
+  isLocalProvider,
+  isReasoningTarget,
+  registerProvider,
+  unregisterProvider,
 } from "./providers.js";
 import type { Provider } from "./providers.js";
 
 const ALL_PROVIDERS: Provider[] = [
   "openai",
+  "azure",
   "anthropic",
   "google",
+  "vertex",
   "mistral",
   "cohere",
+  "xai",
+  "deepseek",
+  "groq",
+  "together",
+  "fireworks",
+  "perplexity",
   "bedrock",
   "openrouter",
   "vercel",
+  "ollama",
+  "vllm",
+  "lmstudio",
+  "llamacpp",
 ];
 
 describe("PROVIDER_META", () => {
@@ -141,6 +171,145 @@ describe("PARAM_SPECS defaults and descriptions", () => {
   });
 });
 
+describe("Azure OpenAI detection", () => {
+  it("detects Azure hosts before OpenAI", () => {
+    expect(detectProvider("my-resource.openai.azure.com")).toBe("azure");
+    expect(detectProvider("my-resource.cognitiveservices.azure.com")).toBe("azure");
+    expect(detectProvider("api.openai.com")).toBe("openai");
+  });
+
+  it("extracts the resource name from the host", () => {
+    expect(detectAzureResource("contoso-eastus.openai.azure.com")).toBe("contoso-eastus");
+    expect(detectAzureResource("api.openai.com")).toBeUndefined();
+  });
+
+  it("treats deployments with o-series names as reasoning targets", () => {
+    expect(isReasoningTarget("azure", "prod-o3-mini")).toBe(true);
+    expect(isReasoningTarget("azure", "o4-mini")).toBe(true);
+    expect(isReasoningTarget("azure", "gpt-4o-mini")).toBe(false);
+    expect(isReasoningTarget("azure", "gpt-4.1")).toBe(false);
+    expect(isReasoningTarget("anthropic", "o3")).toBe(false);
+  });
+});
+
+describe("Vertex AI detection", () => {
+  it("detects Vertex hosts before Google", () => {
+    expect(detectProvider("us-central1-aiplatform.googleapis.com")).toBe("vertex");
+    expect(detectProvider("aiplatform.googleapis.com")).toBe("vertex");
+    expect(detectProvider("generativelanguage.googleapis.com")).toBe("google");
+  });
+
+  it("extracts the location from the host", () => {
+    expect(detectVertexLocation("europe-west4-aiplatform.googleapis.com")).toBe("europe-west4");
+    expect(detectVertexLocation("aiplatform.googleapis.com")).toBe("global");
+    expect(detectVertexLocation("generativelanguage.googleapis.com")).toBeUndefined();
+  });
+
+  it("detects the publisher from the model", () => {
+    expect(detectVertexPublisher("publishers/anthropic/models/claude-sonnet-4-5")).toBe("anthropic");
+    expect(detectVertexPublisher("claude-sonnet-4-5@20250929")).toBe("anthropic");
+    expect(detectVertexPublisher("gemini-2.5-pro")).toBe("google");
+    expect(detectVertexPublisher("publishers/google/models/gemini-2.5-pro")).toBe("google");
+    expect(detectVertexPublisher("publishers/mistralai/models/mistral-medium-3")).toBe("mistral");
+    expect(detectVertexPublisher("publishers/meta/models/llama-4-maverick")).toBeUndefined();
+  });
+});
+
+describe("Bedrock regions and inference profiles", () => {
+  it("extracts the region from the host", () => {
+    expect(detectBedrockRegion("bedrock-runtime.eu-west-1.amazonaws.com")).toBe("eu-west-1");
+    expect(detectBedrockRegion("bedrock-runtime-fips.us-gov-west-1.amazonaws.com")).toBe("us-gov-west-1");
+    expect(detectBedrockRegion("bedrock.ap-northeast-1.amazonaws.com")).toBe("ap-northeast-1");
+    expect(detectBedrockRegion("vpce-123.bedrock-runtime.amazonaws.com")).toBeUndefined();
+  });
+
+  it("extracts the inference profile from the model", () => {
+    expect(detectBedrockInferenceProfile("us.anthropic.claude-sonnet-4-5-20250929-v1:0")).toBe("us");
+    expect(detectBedrockInferenceProfile("us-gov.anthropic.claude-sonnet-4-5-20250929-v1:0")).toBe("us-gov");
+    expect(detectBedrockInferenceProfile("global.anthropic.claude-sonnet-4-5-20250929-v1:0")).toBe("global");
+    expect(detectBedrockInferenceProfile("anthropic.claude-sonnet-4-5-20250929-v1:0")).toBeUndefined();
+    expect(detectBedrockInferenceProfile("amazon.nova-lite-v1:0")).toBeUndefined();
+  });
+
+  it("still detects the model family behind a profile", () => {
+    expect(detectBedrockModelFamily("jp.anthropic.claude-sonnet-4-5-20250929-v1:0")).toBe("anthropic");
+    expect(detectBedrockModelFamily("us-gov.anthropic.claude-sonnet-4-5-20250929-v1:0")).toBe("anthropic");
+  });
+
+  it("matches profiles against source regions", () => {
+    expect(bedrockProfileMatchesRegion("us", "us-west-2")).toBe(true);
+    expect(bedrockProfileMatchesRegion("us", "eu-west-1")).toBe(false);
+    expect(bedrockProfileMatchesRegion("us", "us-gov-west-1")).toBe(false);
+    expect(bedrockProfileMatchesRegion("apac", "ap-southeast-2")).toBe(true);
+    expect(bedrockProfileMatchesRegion("global", "eu-west-1")).toBe(true);
+    expect(bedrockProfileForRegion("eu-central-1")).toBe("eu");
+    expect(bedrockProfileForRegion("us-gov-east-1")).toBe("us-gov");
+    expect(bedrockProfileForRegion("sa-east-1")).toBeUndefined();
+  });
+
+  it("knows which base model IDs need a profile", () => {
+    expect(bedrockRequiresInferenceProfile("anthropic.claude-sonnet-4-5-20250929-v1:0")).toBe(true);
+    expect(bedrockRequiresInferenceProfile("meta.llama4-maverick-17b-instruct-v1:0")).toBe(true);
+    expect(bedrockRequiresInferenceProfile("us.anthropic.claude-sonnet-4-5-20250929-v1:0")).toBe(false);
+    expect(bedrockRequiresInferenceProfile("amazon.nova-lite-v1:0")).toBe(false);
+  });
+});
+
+describe("hosted provider detection", () => {
+  it("detects xAI, DeepSeek, Groq, Together, Fireworks and Perplexity hosts", () => {
+    expect(detectProvider("api.x.ai")).toBe("xai");
+    expect(detectProvider("api.deepseek.com")).toBe("deepseek");
+    expect(detectProvider("api.groq.com")).toBe("groq");
+    expect(detectProvider("api.together.xyz")).toBe("together");
+    expect(detectProvider("api.together.ai")).toBe("together");
+    expect(detectProvider("api.fireworks.ai")).toBe("fireworks");
+    expect(detectProvider("api.perplexity.ai")).toBe("perplexity");
+  });
+
+  it("only matches x.ai as a domain", () => {
+    expect(detectProvider("x.ai")).toBe("xai");
+    expect(detectProvider("api.max.ai")).toBeUndefined();
+  });
+
+  it("recognizes DeepSeek reasoning models", () => {
+    expect(isDeepSeekReasoner("deepseek-reasoner")).toBe(true);
+    expect(isDeepSeekReasoner("deepseek/deepseek-r1")).toBe(true);
+    expect(isDeepSeekReasoner("deepseek/deepseek-r1-0528")).toBe(true);
+    expect(isDeepSeekReasoner("deepseek-chat")).toBe(false);
+  });
+});
+
+describe("local runtime detection", () => {
+  it("detects local runtimes by default port", () => {
+    expect(detectProvider("localhost:11434")).toBe("ollama");
+    expect(detectProvider("127.0.0.1:1234")).toBe("lmstudio");
+    expect(detectProvider("[::1]:8000")).toBe("vllm");
+    expect(detectProvider("localhost:8080")).toBe("llamacpp");
+  });
+
+  it("ignores default ports on other hosts", () => {
+    expect(detectProvider("gpu-box.lan:8000")).toBeUndefined();
+    expect(detectProvider("api.example.com:8080")).toBeUndefined();
+  });
+
+  it("returns undefined for unknown ports", () => {
+    expect(detectProvider("localhost")).toBeUndefined();
+    expect(detectProvider("localhost:3000")).toBeUndefined();
+  });
+
+  it("prefers an explicit provider hint", () => {
+    expect(detectProvider("localhost:9000", "vllm")).toBe("vllm");
+    expect(detectProvider("localhost:11434", "llamacpp")).toBe("llamacpp");
+    expect(detectProvider("localhost:11434", "nope")).toBe("ollama");
+    expect(detectProvider("localhost", "toString")).toBeUndefined();
+  });
+
+  it("flags local runtimes", () => {
+    expect(isLocalProvider("ollama")).toBe(true);
+    expect(isLocalProvider("openai")).toBe(false);
+  });
+});
+
 describe("isGatewayProvider", () => {
   it("returns true for openrouter and vercel", () => {
     expect(isGatewayProvider("openrouter")).toBe(true);
@@ -162,11 +331,18 @@ describe("detectGatewaySubProvider", () => {
     expect(detectGatewaySubProvider("google/gemini-2.5-pro")).toBe("google");
     expect(detectGatewaySubProvider("mistral/mistral-large-latest")).toBe("mistral");
     expect(detectGatewaySubProvider("cohere/command-r-plus")).toBe("cohere");
+    expect(detectGatewaySubProvider("deepseek/deepseek-r1")).toBe("deepseek");
+    expect(detectGatewaySubProvider("perplexity/sonar-pro")).toBe("perplexity");
+  });
+
+  it("maps gateway-specific prefixes to providers", () => {
+    expect(detectGatewaySubProvider("x-ai/grok-4")).toBe("xai");
+    expect(detectGatewaySubProvider("xai/grok-4")).toBe("xai");
   });
 
   it("returns undefined for unknown sub-providers", () => {
     expect(detectGatewaySubProvider("qwen/qwen2.5-pro")).toBeUndefined();
-    expect(detectGatewaySubProvider("deepseek/deepseek-v3")).toBeUndefined();
+    expect(detectGatewaySubProvider("meta-llama/llama-3.3-70b-instruct")).toBeUndefined();
   });
 
   it("returns undefined for models without a slash", () => {
@@ -180,3 +356,93 @@ describe("detectGatewaySubProvider", () => {
     expect(detectGatewaySubProvider("bedrock/some-model")).toBeUndefined();
   });
 });
+
+describe("registerProvider", () => {
+  afterEach(() => {
+    unregisterProvider("acme");
+    unregisterProvider("acme-gateway");
+  });
+
+  const acme = {
+    id: "acme",
+    match: "llm.acme.internal",
+    params: {
+      temperature: "temperature",
+      max_tokens: "max_new_tokens",
+      cache: "cache_mode",
+    },
+    specs: {
+      temperature: { type: "number" as const, min: 0, max: 1, description: "Controls randomness" },
+      max_new_tokens: { type: "number" as const, min: 1, description: "Maximum output tokens" },
+      cache_mode: { type: "string" as const, values: ["on"], description: "Cache mode" },
+    },
+    meta: { name: "Acme", host: "llm.acme.internal", color: "#123456" },
+    cache: "on",
+  };
+
+  it("detects registered providers before built-in rules", () => {
+    registerProvider({ ...acme, match: /openai\.acme\.internal$/ });
+    expect(detectProvider("proxy.openai.acme.internal")).toBe("acme");
+    expect(detectProvider("api.openai.com")).toBe("openai");
+  });
+
+  it("fills in the provider records", () => {
+    registerProvider(acme);
+    const id = "acme" as Provider;
+    expect(PROVIDER_PARAMS[id]).toBe(acme.params);
+    expect(PARAM_SPECS[id]).toBe(acme.specs);
+    expect(CACHE_VALUES[id]).toBe("on");
+    expect(MODELS[id]).toEqual([]);
+    expect(PROVIDER_META.find((m) => m.id === id)?.name).toBe("Acme");
+    expect(CANONICAL_PARAM_SPECS[id].max_tokens).toMatchObject({ type: "number", min: 1 });
+    expect(CANONICAL_PARAM_SPECS[id].cache.type).toBe("enum");
+  });
+
+  it("is honored by normalize() and validate()", () => {
+    registerProvider(acme);
+    const { provider, config } = normalize(
+      parse("llm://llm.acme.internal/acme-1?temp=0.5&max=100&cache=true"),
+    );
+    expect(provider).toBe("acme");
+    expect(config.params).toEqual({
+      temperature: "0.5",
+      max_new_tokens: "100",
+      cache_mode: "on",
+    });
+
+    const issues = validate("llm://llm.acme.internal/acme-1?temp=1.5&seed=1");
+    expect(issues).toHaveLength(2);
+    expect(issues[0].message).toContain("<= 1");
+    expect(issues[1].message).toContain('Unknown param "seed" for acme');
+  });
+
+  it("supports custom gateways routing to registered providers", () => {
+    registerProvider(acme);
+    registerProvider({
+      id: "acme-gateway",
+      match: "gateway.acme.internal",
+      params: { temperature: "temperature" },
+      gateway: true,
+    });
+    expect(isGatewayProvider("acme-gateway" as Provider)).toBe(true);
+    expect(detectGatewaySubProvider("acme/acme-1")).toBe("acme");
+    expect(
+      normalize(parse("llm://gateway.acme.internal/anthropic/claude-sonnet-4-5"))
+        .subProvider,
+    ).toBe("anthropic");
+  });
+
+  it("unregisters custom providers", () => {
+    registerProvider(acme);
+    expect(unregisterProvider("acme")).toBe(true);
+    expect(detectProvider("llm.acme.internal")).toBeUndefined();
+    expect(PROVIDER_META.some((m) => m.id === ("acme" as Provider))).toBe(false);
+    expect(unregisterProvider("acme")).toBe(false);
+  });
+
+  it("refuses to override built-in providers", () => {
+    expect(() => registerProvider({ ...acme, id: "openai" })).toThrow(
+      "built-in provider",
+    );
+  });
+});
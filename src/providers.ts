@@ -1,2 +1,4 @@
 export * from "./provider-core.js";
 export * from "./provider-meta.js";
+export * from "./presets.js";
+export * from "./model-catalog.js";
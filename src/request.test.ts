@@ -0,0 +1,261 @@
+import { describe, expect, it } from "vitest";
+import { parse } from "./index.js";
+import { toRequestBody } from "./request.js";
+
+describe("toRequestBody", () => {
+  it("builds a flat OpenAI chat body with typed values", () => {
+    const body = toRequestBody(
+      parse("llm://api.openai.com/gpt-5.2?temp=0.7&max=2000&stream=true&stop=END"),
+    );
+    expect(body).toEqual({
+      model: "gpt-5.2",
+      temperature: 0.7,
+      max_tokens: 2000,
+      stream: true,
+      stop: ["END"],
+    });
+  });
+
+  it("uses max_completion_tokens for OpenAI reasoning models", () => {
+    const body = toRequestBody(parse("llm://api.openai.com/o3?max=4096&effort=high"));
+    expect(body).toEqual({
+      model: "o3",
+      max_completion_tokens: 4096,
+      reasoning_effort: "high",
+    });
+  });
+
+  it("builds an Anthropic Messages body with stop_sequences as an array", () => {
+    const body = toRequestBody(
+      parse("llm://api.anthropic.com/claude-sonnet-4-5?max=4096&temp=0.5&stop=END"),
+    );
+    expect(body).toEqual({
+      model: "claude-sonnet-4-5",
+      max_tokens: 4096,
+      temperature: 0.5,
+      stop_sequences: ["END"],
+    });
+  });
+
+  it("nests Anthropic effort and cache settings", () => {
+    const body = toRequestBody(
+      parse("llm://api.anthropic.com/claude-opus-4-6?effort=high&cache=1h"),
+    );
+    expect(body).toEqual({
+      model: "claude-opus-4-6",
+      output_config: { effort: "high" },
+      cache_control: { type: "ephemeral", ttl: "1h" },
+    });
+  });
+
+  it("builds Anthropic, Gemini, and Bedrock Claude thinking settings", () => {
+    expect(
+      toRequestBody(parse("llm://api.anthropic.com/claude-sonnet-4-5?thinking=4000&max=8000")),
+    ).toEqual({
+      model: "claude-sonnet-4-5",
+      max_tokens: 8000,
+      thinking: { type: "enabled", budget_tokens: 4000 },
+    });
+    expect(
+      toRequestBody(
+        parse("llm://generativelanguage.googleapis.com/gemini-2.5-flash?thinking_budget=0"),
+      ),
+    ).toEqual({ generationConfig: { thinkingConfig: { thinkingBudget: 0 } } });
+    expect(
+      toRequestBody(
+        parse(
+          "llm://bedrock-runtime.us-east-1.amazonaws.com/us.anthropic.claude-sonnet-4-5-20250929-v1:0?thinking=2048&max=4096",
+        ),
+      ),
+    ).toEqual({
+      inferenceConfig: { maxTokens: 4096 },
+      additionalModelRequestFields: { thinking: { type: "enabled", budget_tokens: 2048 } },
+    });
+  });
+
+  it("nests Google params under generationConfig", () => {
+    const body = toRequestBody(
+      parse(
+        "llm://generativelanguage.googleapis.com/gemini-2.5-pro?temp=0.7&max=2000&topk=40&stop=END&stream=true",
+      ),
+    );
+    expect(body).toEqual({
+      generationConfig: {
+        temperature: 0.7,
+        maxOutputTokens: 2000,
+        topK: 40,
+        stopSequences: ["END"],
+      },
+    });
+  });
+
+  it("parses Google responseSchema as JSON", () => {
+    const body = toRequestBody(
+      parse(
+        'llm://generativelanguage.googleapis.com/gemini-2.5-pro?responseMimeType=application/json&responseSchema={"type":"object"}',
+      ),
+    );
+    expect(body.generationConfig).toEqual({
+      responseMimeType: "application/json",
+      responseSchema: { type: "object" },
+    });
+  });
+
+  it("builds each provider's structured-output settings", () => {
+    const schema = { type: "object", properties: {}, additionalProperties: false };
+    const encoded = encodeURIComponent(JSON.stringify(schema));
+
+    expect(toRequestBody(parse("llm://api.openai.com/gpt-5.2?json=true"))).toEqual({
+      model: "gpt-5.2",
+      response_format: { type: "json_object" },
+    });
+    expect(toRequestBody(parse(`llm://api.openai.com/gpt-5.2?json=true&schema=${encoded}`))).toEqual({
+      model: "gpt-5.2",
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "response", schema, strict: true },
+      },
+    });
+    expect(
+      toRequestBody(parse(`llm://api.anthropic.com/claude-sonnet-4-5?effort=high&schema=${encoded}`)),
+    ).toEqual({
+      model: "claude-sonnet-4-5",
+      output_config: { effort: "high", format: { type: "json_schema", schema } },
+    });
+    expect(
+      toRequestBody(parse(`llm://generativelanguage.googleapis.com/gemini-2.5-pro?schema=${encoded}`))
+        .generationConfig,
+    ).toEqual({ responseMimeType: "application/json", responseSchema: schema });
+    expect(toRequestBody(parse(`llm://api.cohere.com/command-a?schema=${encoded}`))).toEqual({
+      model: "command-a",
+      response_format: { type: "json_object", json_schema: schema },
+    });
+  });
+
+  it("leaves json=false out of the body", () => {
+    expect(toRequestBody(parse("llm://api.openai.com/gpt-5.2?json=false"))).toEqual({
+      model: "gpt-5.2",
+    });
+  });
+
+  it("builds a Bedrock Converse body with inferenceConfig and topK fields", () => {
+    const body = toRequestBody(
+      parse(
+        "llm://bedrock-runtime.us-east-1.amazonaws.com/us.anthropic.claude-sonnet-4-5-20250929-v1:0?temp=0.5&max=4096&topk=40&stop=END",
+      ),
+    );
+    expect(body).toEqual({
+      inferenceConfig: {
+        temperature: 0.5,
+        maxTokens: 4096,
+        stopSequences: ["END"],
+      },
+      additionalModelRequestFields: { top_k: 40 },
+    });
+  });
+
+  it("uses k for Cohere models on Bedrock", () => {
+    const body = toRequestBody(
+      parse("llm://bedrock-runtime.us-east-1.amazonaws.com/cohere.command-r-plus-v1:0?topk=40"),
+    );
+    expect(body).toEqual({ additionalModelRequestFields: { k: 40 } });
+  });
+
+  it("keeps gateway bodies OpenAI-compatible", () => {
+    const body = toRequestBody(
+      parse("llm://openrouter.ai/anthropic/claude-sonnet-4-5?temp=0.7&max=2000"),
+    );
+    expect(body).toEqual({
+      model: "anthropic/claude-sonnet-4-5",
+      temperature: 0.7,
+      max_tokens: 2000,
+    });
+  });
+
+  it("nests gateway routing params", () => {
+    expect(
+      toRequestBody(
+        parse("llm://openrouter.ai/anthropic/claude-sonnet-4-5?order=anthropic,amazon-bedrock&allow_fallbacks=false&models=openai/gpt-5.2"),
+      ),
+    ).toEqual({
+      model: "anthropic/claude-sonnet-4-5",
+      models: ["openai/gpt-5.2"],
+      provider: { order: ["anthropic", "amazon-bedrock"], allow_fallbacks: false },
+    });
+    expect(
+      toRequestBody(parse("llm://gateway.ai.vercel.sh/anthropic/claude-sonnet-4-5?order=bedrock&models=openai/gpt-5.2")),
+    ).toEqual({
+      model: "anthropic/claude-sonnet-4-5",
+      providerOptions: { gateway: { order: ["bedrock"], models: ["openai/gpt-5.2"] } },
+    });
+  });
+
+  it("nests Perplexity's search context size under web_search_options", () => {
+    const body = toRequestBody(
+      parse("llm://api.perplexity.ai/sonar-pro?search_mode=academic&search_domain_filter=arxiv.org&search_context_size=high&temp=0.2"),
+    );
+    expect(body).toEqual({
+      model: "sonar-pro",
+      search_mode: "academic",
+      search_domain_filter: ["arxiv.org"],
+      temperature: 0.2,
+      web_search_options: { search_context_size: "high" },
+    });
+  });
+
+  it("uses max_completion_tokens on Groq and repetition_penalty on Together", () => {
+    expect(
+      toRequestBody(parse("llm://api.groq.com/llama-3.3-70b-versatile?max=1024")),
+    ).toEqual({ model: "llama-3.3-70b-versatile", max_completion_tokens: 1024 });
+    expect(
+      toRequestBody(parse("llm://api.together.xyz/deepseek-ai/DeepSeek-V3?repeat_penalty=1.1&json=true")),
+    ).toEqual({
+      model: "deepseek-ai/DeepSeek-V3",
+      repetition_penalty: 1.1,
+      response_format: { type: "json_object" },
+    });
+  });
+
+  it("builds a Claude-on-Vertex body with anthropic_version", () => {
+    const body = toRequestBody(
+      parse("llm://us-east5-aiplatform.googleapis.com/claude-sonnet-4-5@20250929?project=p&max=1024&stop=END"),
+    );
+    expect(body).toEqual({
+      anthropic_version: "vertex-2023-10-16",
+      max_tokens: 1024,
+      stop_sequences: ["END"],
+    });
+  });
+
+  it("builds a Gemini-on-Vertex body with generationConfig", () => {
+    const body = toRequestBody(
+      parse("llm://us-central1-aiplatform.googleapis.com/gemini-2.5-pro?project=p&temp=0.3"),
+    );
+    expect(body).toEqual({ generationConfig: { temperature: 0.3 } });
+  });
+
+  it("leaves model and api-version out of Azure bodies", () => {
+    const body = toRequestBody(
+      parse("llm://contoso.openai.azure.com/gpt-4.1?api-version=2025-04-01-preview&temp=0.7"),
+    );
+    expect(body).toEqual({ temperature: 0.7 });
+  });
+
+  it("nests Ollama sampling params under options", () => {
+    const body = toRequestBody(
+      parse("llm://localhost:11434/llama3.3?temp=0.7&max=256&num_ctx=8192&stream=false&keep_alive=10m"),
+    );
+    expect(body).toEqual({
+      model: "llama3.3",
+      stream: false,
+      keep_alive: "10m",
+      options: { temperature: 0.7, num_predict: 256, num_ctx: 8192 },
+    });
+  });
+
+  it("throws for unknown providers", () => {
+    expect(() =>
+      toRequestBody(parse("llm://custom-api.example.com/my-model?temp=0.5")),
+    ).toThrow("unknown provider");
+  });
+});
@@ -0,0 +1,313 @@
+import type { LlmConnectionConfig } from "./parse.js";
+import { normalize, type TypedParamValue } from "./normalize.js";
+import {
+  VERTEX_PLATFORM_PARAMS,
+  detectBedrockModelFamily,
+  type BedrockModelFamily,
+  type Provider,
+} from "./provider-core.js";
+import { JSON_MIME_TYPE, parseSchemaParam } from "./structured-output.js";
+
+/** A provider-native JSON request body, ready for `JSON.stringify`. */
+export type RequestBody = Record<string, unknown>;
+
+/** `anthropic_version` that Claude on Vertex AI expects in the body. */
+const VERTEX_ANTHROPIC_VERSION = "vertex-2023-10-16";
+
+/** Google params that live inside `generationConfig`. */
+const GOOGLE_GENERATION_CONFIG = new Set([
+  "temperature",
+  "maxOutputTokens",
+  "topP",
+  "topK",
+  "frequencyPenalty",
+  "presencePenalty",
+  "stopSequences",
+  "candidateCount",
+  "seed",
+  "responseMimeType",
+  "responseSchema",
+]);
+
+/** Name OpenAI-style `json_schema` response formats are sent under. */
+const RESPONSE_FORMAT_NAME = "response";
+
+/**
+ * OpenAI-style `response_format` for the canonical `json` / `schema` params:
+ * a strict `json_schema` format when there's a schema, JSON mode otherwise.
+ */
+function responseFormat(
+  json: unknown,
+  schema: unknown,
+): Record<string, unknown> | undefined {
+  if (schema !== undefined) {
+    return {
+      type: "json_schema",
+      json_schema: { name: RESPONSE_FORMAT_NAME, schema, strict: true },
+    };
+  }
+  return json === true ? { type: "json_object" } : undefined;
+}
+
+/** The fields that are set, or `undefined` when none are. */
+function definedFields(
+  fields: Record<string, unknown>,
+): Record<string, unknown> | undefined {
+  const defined = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined),
+  );
+  return Object.keys(defined).length > 0 ? defined : undefined;
+}
+
+/** Bedrock Converse params that live inside `inferenceConfig`. */
+const BEDROCK_INFERENCE_CONFIG = new Set([
+  "temperature",
+  "maxTokens",
+  "topP",
+  "stopSequences",
+]);
+
+/** Field name for top-k in `additionalModelRequestFields`, per Bedrock model family. */
+const BEDROCK_TOP_K_FIELD: Partial<Record<BedrockModelFamily, string>> = {
+  anthropic: "top_k",
+  mistral: "top_k",
+  cohere: "k",
+};
+
+/**
+ * Build the provider-native request body from normalized params.
+ * Params that aren't part of the body (e.g. `stream` on Google and Bedrock,
+ * which select a different endpoint instead) are left out.
+ */
+function buildBody(
+  provider: Provider,
+  subProvider: Provider | undefined,
+  model: string,
+  params: Record<string, TypedParamValue>,
+): RequestBody {
+  const typed: Record<string, unknown> = { ...params };
+  // Schemas are sent as JSON objects, not strings. Malformed ones are left
+  // as-is for the API to report.
+  for (const key of ["schema", "responseSchema"]) {
+    if (typeof typed[key] === "string") {
+      typed[key] = parseSchemaParam(typed[key]) ?? typed[key];
+    }
+  }
+
+  switch (provider) {
+    case "anthropic": {
+      const { cache_control, cache_ttl, effort, budget_tokens, schema, ...rest } = typed;
+      const body: RequestBody = { model, ...rest };
+      // Claude's structured output needs a schema; `json` alone has no field
+      delete body.json;
+      // Effort and the output format nest under output_config in the Messages API
+      if (effort !== undefined || schema !== undefined) {
+        body.output_config = {
+          ...(effort !== undefined && { effort }),
+          ...(schema !== undefined && { format: { type: "json_schema", schema } }),
+        };
+      }
+      if (budget_tokens !== undefined) {
+        body.thinking = { type: "enabled", budget_tokens };
+      }
+      // Top-level cache_control caches the prompt up to the last cacheable block
+      if (cache_control !== undefined) {
+        body.cache_control = {
+          type: cache_control,
+          ...(cache_ttl !== undefined && { ttl: cache_ttl }),
+        };
+      }
+      return body;
+    }
+
+    case "google": {
+      // Model is part of the URL path (models/{model}:generateContent)
+      const generationConfig: Record<string, unknown> = {};
+      const body: RequestBody = {};
+      for (const [key, value] of Object.entries(typed)) {
+        if (GOOGLE_GENERATION_CONFIG.has(key)) {
+          generationConfig[key] = value;
+        } else if (key === "thinkingBudget") {
+          generationConfig.thinkingConfig = { thinkingBudget: value };
+        } else if (key !== "stream") {
+          body[key] = value;
+        }
+      }
+      // A response schema only applies to JSON output
+      if (generationConfig.responseSchema !== undefined && generationConfig.responseMimeType === undefined) {
+        generationConfig.responseMimeType = JSON_MIME_TYPE;
+      }
+      if (Object.keys(generationConfig).length > 0) {
+        body.generationConfig = generationConfig;
+      }
+      return body;
+    }
+
+    case "bedrock": {
+      // Model is part of the URL path (/model/{modelId}/converse). Caching is
+      // expressed with cachePoint blocks inside messages, not request fields.
+      const family = detectBedrockModelFamily(model);
+      const inferenceConfig: Record<string, unknown> = {};
+      const additionalModelRequestFields: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(typed)) {
+        if (BEDROCK_INFERENCE_CONFIG.has(key)) {
+          inferenceConfig[key] = value;
+        } else if (key === "topK") {
+          const field = (family && BEDROCK_TOP_K_FIELD[family]) ?? "top_k";
+          additionalModelRequestFields[field] = value;
+        } else if (key === "budget_tokens") {
+          // Claude's extended thinking, passed through in its native shape
+          additionalModelRequestFields.thinking = { type: "enabled", budget_tokens: value };
+        }
+      }
+      const body: RequestBody = {};
+      if (Object.keys(inferenceConfig).length > 0) {
+        body.inferenceConfig = inferenceConfig;
+      }
+      if (Object.keys(additionalModelRequestFields).length > 0) {
+        body.additionalModelRequestFields = additionalModelRequestFields;
+      }
+      return body;
+    }
+
+    case "vertex": {
+      // Project and location go in the URL; the body is the publisher's own
+      const rest: Record<string, TypedParamValue> = { ...params };
+      for (const name of VERTEX_PLATFORM_PARAMS) delete rest[name];
+      if (subProvider === "anthropic") {
+        const body: RequestBody = {
+          anthropic_version: VERTEX_ANTHROPIC_VERSION,
+          ...buildBody(subProvider, undefined, model, rest),
+        };
+        delete body.model;
+        return body;
+      }
+      if (subProvider === "google") {
+        return buildBody(subProvider, undefined, model, rest);
+      }
+      return { model, ...rest };
+    }
+
+    case "azure": {
+      // The deployment (model) and api-version go in the URL, not the body
+      const body: RequestBody = { ...typed };
+      delete body["api-version"];
+      return body;
+    }
+
+    case "ollama": {
+      // Native /api/chat: sampling params nest under options
+      const { stream, keep_alive, ...options } = typed;
+      const body: RequestBody = { model };
+      if (stream !== undefined) body.stream = stream;
+      if (keep_alive !== undefined) body.keep_alive = keep_alive;
+      if (Object.keys(options).length > 0) body.options = options;
+      return body;
+    }
+
+    case "cohere": {
+      // Cohere's JSON mode takes the schema inside the json_object format
+      const { json, schema, ...rest } = typed;
+      const body: RequestBody = { model, ...rest };
+      if (json === true || schema !== undefined) {
+        body.response_format = {
+          type: "json_object",
+          ...(schema !== undefined && { json_schema: schema }),
+        };
+      }
+      return body;
+    }
+
+    case "perplexity": {
+      // Search context size nests under web_search_options
+      const { search_context_size, schema, ...rest } = typed;
+      const format = responseFormat(undefined, schema);
+      return {
+        model,
+        ...rest,
+        ...(format && { response_format: format }),
+        ...(search_context_size !== undefined && {
+          web_search_options: { search_context_size },
+        }),
+      };
+    }
+
+    case "openrouter": {
+      // Provider routing preferences nest under `provider`
+      const { provider_order, allow_fallbacks, data_collection, json, schema, ...rest } = typed;
+      const format = responseFormat(json, schema);
+      const preferences = definedFields({ order: provider_order, allow_fallbacks, data_collection });
+      return {
+        model,
+        ...rest,
+        ...(format && { response_format: format }),
+        ...(preferences && { provider: preferences }),
+      };
+    }
+
+    case "vercel": {
+      // Routing options nest under providerOptions.gateway
+      const { provider_order, models, json, schema, ...rest } = typed;
+      const format = responseFormat(json, schema);
+      const gateway = definedFields({ order: provider_order, models });
+      return {
+        model,
+        ...rest,
+        ...(format && { response_format: format }),
+        ...(gateway && { providerOptions: { gateway } }),
+      };
+    }
+
+    default: {
+      // OpenAI-style flat body (OpenAI, Mistral, xAI, DeepSeek, Groq, Together,
+      // Fireworks, and OpenAI-compatible servers)
+      const { json, schema, ...rest } = typed;
+      const format = responseFormat(json, schema);
+      return { model, ...rest, ...(format && { response_format: format }) };
+    }
+  }
+}
+
+/**
+ * Build the provider-native JSON request body for a connection config.
+ *
+ * Normalizes the config, then shapes the params the way each provider's API
+ * expects them:
+ * - OpenAI, Mistral, Cohere, xAI, DeepSeek, Groq, Together, Fireworks and
+ *   OpenAI-compatible local runtimes: flat `{ model, temperature, ... }`
+ * - Perplexity: flat, with `search_context_size` under `web_search_options`
+ * - Anthropic Messages: flat, with `stop_sequences` as an array and the
+ *   thinking budget under `thinking`
+ * - Google Gemini: sampling params nested under `generationConfig`, the
+ *   thinking budget under `generationConfig.thinkingConfig`
+ * - Bedrock Converse: `inferenceConfig`, plus `additionalModelRequestFields`
+ *   for `topK` and Claude's `thinking`
+ * - OpenRouter and Vercel: flat, with routing params under `provider` and
+ *   `providerOptions.gateway` respectively
+ * - Vertex AI: the publisher's native body (Claude adds `anthropic_version`)
+ * - Azure OpenAI: flat, without `model` or `api-version` (both live in the URL)
+ * - Ollama `/api/chat`: sampling params nested under `options`
+ *
+ * Message content is left to the caller — spread the result into your request.
+ *
+ * @example
+ * ```ts
+ * toRequestBody(parse("llm://generativelanguage.googleapis.com/gemini-2.5-pro?temp=0.7&max=2000"))
+ * // → { generationConfig: { temperature: 0.7, maxOutputTokens: 2000 } }
+ * ```
+ */
+export function toRequestBody(config: LlmConnectionConfig): RequestBody {
+  const {
+    config: normalized,
+    provider,
+    subProvider,
+  } = normalize(config, { typed: true });
+
+  if (!provider) {
+    throw new Error(
+      `Cannot build a request body: unknown provider for host "${config.host}"`,
+    );
+  }
+
+  return buildBody(provider, subProvider, normalized.model, normalized.params);
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { toJsonSchema } from "./schema.js";
+
+describe("toJsonSchema", () => {
+  it("emits a draft 2020-12 object schema from the provider's specs", () => {
+    const schema = toJsonSchema("anthropic");
+
+    expect(schema.$schema).toBe("https://json-schema.org/draft/2020-12/schema");
+    expect(schema.title).toBe("Anthropic params");
+    expect(schema.type).toBe("object");
+    expect(schema.properties.temperature).toEqual({
+      type: "number",
+      minimum: 0,
+      maximum: 1,
+      default: 0.7,
+      description: "Controls randomness",
+    });
+    expect(schema.properties.effort).toEqual({
+      type: "string",
+      enum: ["low", "medium", "high", "max"],
+      default: "medium",
+      description: "Thinking effort",
+    });
+    expect(schema.properties.stream).toMatchObject({ type: "boolean", default: false });
+    expect(schema.properties.stop_sequences).toEqual({
+      type: "array",
+      items: { type: "string", minLength: 1 },
+      description: "Stop sequences",
+    });
+  });
+
+  it("caps list params at the provider's maxItems", () => {
+    expect(toJsonSchema("openai").properties.stop).toMatchObject({
+      type: "array",
+      maxItems: 4,
+    });
+  });
+
+  it("leaves out placeholder defaults", () => {
+    expect(toJsonSchema("openai").properties.seed).not.toHaveProperty("default");
+  });
+
+  it("keys properties by canonical names with canonical: true", () => {
+    const specific = toJsonSchema("google");
+    expect(specific.properties).toHaveProperty("maxOutputTokens");
+
+    const canonical = toJsonSchema("google", { canonical: true });
+    expect(canonical.properties).not.toHaveProperty("maxOutputTokens");
+    expect(canonical.properties.max_tokens).toMatchObject({ type: "number", minimum: 1 });
+    expect(canonical.properties.stop).toMatchObject({ type: "array" });
+  });
+
+  it("types Google's canonical json flag as a boolean", () => {
+    expect(toJsonSchema("google").properties.responseMimeType).toMatchObject({ type: "string" });
+    expect(toJsonSchema("google", { canonical: true }).properties.json).toEqual({
+      type: "boolean",
+      default: false,
+      description: "JSON output",
+    });
+  });
+
+  it("encodes Anthropic's temperature/top_p mutual exclusion", () => {
+    expect(toJsonSchema("anthropic").dependentSchemas).toMatchObject({
+      temperature: { not: { required: ["top_p"] } },
+    });
+    expect(toJsonSchema("openai").dependentSchemas).toBeUndefined();
+  });
+
+  it("applies the mutual exclusion to Claude on Bedrock, Vertex AI, and gateways", () => {
+    expect(
+      toJsonSchema("bedrock", { model: "us.anthropic.claude-sonnet-4-5-20250929-v1:0" })
+        .dependentSchemas,
+    ).toMatchObject({ temperature: { not: { required: ["topP"] } } });
+    expect(
+      toJsonSchema("bedrock", {
+        model: "us.anthropic.claude-sonnet-4-5-20250929-v1:0",
+        canonical: true,
+      }).dependentSchemas,
+    ).toMatchObject({ temperature: { not: { required: ["top_p"] } } });
+    expect(toJsonSchema("vertex", { model: "claude-sonnet-4-5@20250929" }).dependentSchemas)
+      .toMatchObject({ temperature: { not: { required: ["top_p"] } } });
+    expect(
+      toJsonSchema("openrouter", { model: "anthropic/claude-sonnet-4-5" }).dependentSchemas,
+    ).toEqual({ temperature: { not: { required: ["top_p"] } } });
+    expect(toJsonSchema("bedrock").dependentSchemas).toBeUndefined();
+  });
+
+  it("limits Claude's sampling params while extended thinking is on", () => {
+    expect(toJsonSchema("anthropic").dependentSchemas?.budget_tokens).toEqual({
+      properties: { temperature: { const: 1 }, top_p: { minimum: 0.95 }, top_k: false },
+    });
+    expect(
+      toJsonSchema("anthropic", { canonical: true }).dependentSchemas?.thinking,
+    ).toBeDefined();
+    expect(
+      toJsonSchema("bedrock", { model: "us.meta.llama4-maverick-17b-instruct-v1:0" }).properties
+        .budget_tokens,
+    ).toBe(false);
+  });
+
+  it("uses the sub-provider's ranges behind a gateway", () => {
+    expect(toJsonSchema("openrouter").properties.temperature).toMatchObject({ maximum: 2 });
+    expect(
+      toJsonSchema("openrouter", { model: "anthropic/claude-sonnet-4-5" }).properties.temperature,
+    ).toMatchObject({ maximum: 1 });
+  });
+
+  it("uses the publisher's params on Vertex AI", () => {
+    const schema = toJsonSchema("vertex", { model: "claude-sonnet-4-5@20250929" });
+    expect(schema.properties).toHaveProperty("stop_sequences");
+    expect(schema.properties).toHaveProperty("project");
+    expect(schema.properties).not.toHaveProperty("maxOutputTokens");
+  });
+
+  it("forbids sampling params for reasoning models", () => {
+    const schema = toJsonSchema("openai", { model: "o3" });
+    expect(schema.properties.temperature).toBe(false);
+    expect(schema.properties.top_p).toBe(false);
+    expect(schema.properties.n).toBe(false);
+    expect(schema.properties.max_tokens).toMatchObject({ type: "number" });
+
+    expect(toJsonSchema("openai", { model: "gpt-5.2" }).properties.temperature).toMatchObject({
+      type: "number",
+    });
+  });
+
+  it("forbids topK and cache_control for Bedrock families that lack them", () => {
+    const llama = toJsonSchema("bedrock", { model: "us.meta.llama4-maverick-17b-instruct-v1:0" });
+    expect(llama.properties.topK).toBe(false);
+    expect(llama.properties.cache_control).toBe(false);
+
+    const claude = toJsonSchema("bedrock", {
+      model: "us.anthropic.claude-sonnet-4-5-20250929-v1:0",
+    });
+    expect(claude.properties.topK).toMatchObject({ type: "number" });
+    expect(claude.properties.cache_control).toMatchObject({ enum: ["ephemeral"] });
+  });
+
+  it("requires a well-formed api-version on Azure", () => {
+    const schema = toJsonSchema("azure");
+    expect(schema.required).toEqual(["api-version"]);
+    const pattern = (schema.properties["api-version"] as { pattern: string }).pattern;
+    expect(new RegExp(pattern).test("2025-04-01-preview")).toBe(true);
+    expect(new RegExp(pattern).test("april")).toBe(false);
+
+    expect(toJsonSchema("azure", { canonical: true }).required).toEqual(["api_version"]);
+  });
+
+  it("throws for unknown providers", () => {
+    expect(() => toJsonSchema("nope" as never)).toThrow('unknown provider "nope"');
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  AZURE_API_VERSION_RE,
+  PARAM_SPECS,
+  PROVIDER_PARAMS,
+  REASONING_MODEL_UNSUPPORTED,
+  bedrockSupportsCaching,
+  detectBedrockModelFamily,
+  detectGatewaySubProvider,
+  detectVertexPublisher,
+  isGatewayProvider,
+  isReasoningTarget,
+  paramMapFor,
+  paramSpecsFor,
+  type ParamSpec,
+  type Provider,
+} from "./provider-core.js";
+import { CANONICAL_PARAM_SPECS, PROVIDER_META } from "./provider-meta.js";
+
+/** A JSON Schema (draft 2020-12). `false` matches nothing, forbidding a property. */
+export type JsonSchema = { [keyword: string]: unknown } | boolean;
+
+/** The object schema `toJsonSchema()` returns. */
+export interface ParamsJsonSchema {
+  $schema: string;
+  title: string;
+  type: "object";
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+  dependentSchemas?: Record<string, JsonSchema>;
+}
+
+export interface ToJsonSchemaOptions {
+  /**
+   * Key properties by canonical param names (`max_tokens`, `top_k`) instead
+   * of the provider's own names (`maxOutputTokens`, `topK`).
+   */
+  canonical?: boolean;
+  /**
+   * Model the params are for. Adds the model-dependent rules `validate()`
+   * applies: the publisher's params on Vertex AI, the sub-provider's ranges
+   * behind a gateway, reasoning-model and Bedrock model-family restrictions.
+   */
+  model?: string;
+}
+
+const DRAFT_2020_12 = "https://json-schema.org/draft/2020-12/schema";
+
+/** Bedrock model families that accept topK. */
+const BEDROCK_TOP_K_FAMILIES = new Set(["anthropic", "cohere", "mistral"]);
+
+function specSchema(spec: ParamSpec): JsonSchema {
+  const schema: Record<string, unknown> = {};
+  switch (spec.type) {
+    case "number":
+      schema.type = "number";
+      if (spec.min !== undefined) schema.minimum = spec.min;
+      if (spec.max !== undefined) schema.maximum = spec.max;
+      break;
+    case "boolean":
+      schema.type = "boolean";
+      break;
+    case "string[]":
+      schema.type = "array";
+      schema.items = spec.values
+        ? { type: "string", enum: [...spec.values] }
+        : { type: "string", minLength: 1 };
+      if (spec.maxItems !== undefined) schema.maxItems = spec.maxItems;
+      break;
+    default:
+      schema.type = "string";
+      if (spec.values) schema.enum = [...spec.values];
+  }
+  // Only emit defaults that match the property's type
+  if (
+    spec.default !== undefined &&
+    (spec.type === "string[]" || typeof spec.default === schema.type)
+  ) {
+    schema.default = spec.default;
+  }
+  if (spec.description) schema.description = spec.description;
+  return schema;
+}
+
+/**
+ * Specs keyed by the names a connection string uses, as `validate()` sees
+ * them. Behind a gateway with a known sub-provider, the sub-provider's
+ * ranges apply to the gateway's param names.
+ */
+function effectiveSpecs(
+  provider: Provider,
+  subProvider: Provider | undefined,
+): Record<string, ParamSpec> {
+  if (!subProvider || !isGatewayProvider(provider)) {
+    return paramSpecsFor(provider, subProvider);
+  }
+  const specs = { ...PARAM_SPECS[provider] };
+  for (const [canonical, gatewayKey] of Object.entries(PROVIDER_PARAMS[provider])) {
+    const subKey = PROVIDER_PARAMS[subProvider][canonical];
+    const subSpec = subKey ? PARAM_SPECS[subProvider][subKey] : undefined;
+    if (subSpec) specs[gatewayKey] = subSpec;
+  }
+  return specs;
+}
+
+/**
+ * Generate a JSON Schema (draft 2020-12) for a provider's params, for config
+ * UIs, editor autocompletion, or validating params outside this library.
+ *
+ * Each property carries the type, range, allowed values, default, and
+ * description from the provider's param specs. Values are described with
+ * their JSON types — numbers, booleans, and string arrays for list params
+ * like stop sequences. Rules `validate()` enforces in code are encoded too:
+ * Azure's required `api-version`, Anthropic's temperature/top_p mutual
+ * exclusion and sampling limits during extended thinking (via
+ * `dependentSchemas`), and — when `model` is given —
+ * reasoning-model and Bedrock model-family restrictions (as `false`
+ * subschemas). Unknown params stay allowed, since `validate()` only warns
+ * about them.
+ *
+ * @example
+ * ```ts
+ * toJsonSchema("anthropic");
+ * // → { $schema: "https://json-schema.org/draft/2020-12/schema", type: "object",
+ * //     properties: { temperature: { type: "number", minimum: 0, maximum: 1, ... }, ... },
+ * //     dependentSchemas: { temperature: { not: { required: ["top_p"] } } } }
+ *
+ * toJsonSchema("google", { canonical: true }).properties.max_tokens;
+ * // → { type: "number", minimum: 1, default: 4096, description: "Maximum output tokens" }
+ * ```
+ */
+export function toJsonSchema(
+  provider: Provider,
+  options: ToJsonSchemaOptions = {},
+): ParamsJsonSchema {
+  if (!Object.hasOwn(PROVIDER_PARAMS, provider)) {
+    throw new Error(`Cannot generate schema: unknown provider "${provider}"`);
+  }
+
+  const { canonical = false, model } = options;
+  const subProvider =
+    model === undefined
+      ? undefined
+      : isGatewayProvider(provider)
+        ? detectGatewaySubProvider(model)
+        : provider === "vertex"
+          ? detectVertexPublisher(model)
+          : undefined;
+  const effectiveProvider = subProvider ?? provider;
+  const paramMap = paramMapFor(provider, subProvider);
+  const specs = effectiveSpecs(provider, subProvider);
+
+  // Provider-specific name → property name
+  const reverse: Record<string, string> = {};
+  if (canonical) {
+    for (const [canonicalKey, specific] of Object.entries(paramMap)) {
+      reverse[specific] = canonicalKey;
+    }
+  }
+  const propertyName = (specific: string) =>
+    Object.hasOwn(reverse, specific) ? reverse[specific] : specific;
+  /** Property name for a canonical param, or `undefined` if the provider lacks it. */
+  const nameOf = (canonicalKey: string) => {
+    const specific = paramMap[canonicalKey];
+    return specific !== undefined && Object.hasOwn(specs, specific)
+      ? propertyName(specific)
+      : undefined;
+  };
+
+  const properties: Record<string, JsonSchema> = {};
+  for (const [key, spec] of Object.entries(specs)) {
+    const name = propertyName(key);
+    // A canonical flag can stand for a differently typed provider param:
+    // Google's `json=true` becomes responseMimeType=application/json
+    const canonicalSpec = canonical ? CANONICAL_PARAM_SPECS[effectiveProvider][name] : undefined;
+    properties[name] = specSchema(
+      canonicalSpec?.type === "boolean" && spec.type !== "boolean"
+        ? { type: "boolean", default: canonicalSpec.default, description: canonicalSpec.description }
+        : spec,
+    );
+  }
+
+  const schema: ParamsJsonSchema = {
+    $schema: DRAFT_2020_12,
+    title: `${PROVIDER_META.find((meta) => meta.id === provider)?.name ?? provider} params`,
+    type: "object",
+    properties,
+  };
+
+  // Azure OpenAI rejects requests without an api-version query param
+  const apiVersion = nameOf("api_version");
+  if (provider === "azure" && apiVersion) {
+    properties[apiVersion] = {
+      ...(properties[apiVersion] as Record<string, unknown>),
+      pattern: AZURE_API_VERSION_RE.source,
+    };
+    schema.required = [apiVersion];
+  }
+
+  if (model !== undefined) {
+    // Reasoning models reject sampling params outright
+    if (isReasoningTarget(provider, model)) {
+      for (const key of REASONING_MODEL_UNSUPPORTED) {
+        const name = nameOf(key);
+        if (name) properties[name] = false;
+      }
+    }
+
+    if (provider === "bedrock") {
+      const family = detectBedrockModelFamily(model);
+      const topK = nameOf("top_k");
+      if (topK && family && !BEDROCK_TOP_K_FAMILIES.has(family)) {
+        properties[topK] = false;
+      }
+      const cache = nameOf("cache");
+      if (cache && !bedrockSupportsCaching(model)) properties[cache] = false;
+      const thinking = nameOf("thinking");
+      if (thinking && family && family !== "anthropic") properties[thinking] = false;
+    }
+  }
+
+  // Anthropic (and Claude on Bedrock, Vertex AI, or a gateway) rejects
+  // temperature with top_p, and limits sampling during extended thinking
+  if (
+    effectiveProvider === "anthropic" ||
+    (provider === "bedrock" &&
+      model !== undefined &&
+      detectBedrockModelFamily(model) === "anthropic")
+  ) {
+    const temperature = nameOf("temperature");
+    const topP = nameOf("top_p");
+    const topK = nameOf("top_k");
+    const thinking = nameOf("thinking");
+    const dependentSchemas: Record<string, JsonSchema> = {};
+    if (temperature && topP) {
+      dependentSchemas[temperature] = { not: { required: [topP] } };
+    }
+    if (thinking) {
+      const whileThinking: Record<string, JsonSchema> = {};
+      if (temperature) whileThinking[temperature] = { const: 1 };
+      if (topP) whileThinking[topP] = { minimum: 0.95 };
+      if (topK) whileThinking[topK] = false;
+      dependentSchemas[thinking] = { properties: whileThinking };
+    }
+    if (Object.keys(dependentSchemas).length > 0) schema.dependentSchemas = dependentSchemas;
+  }
+
+  return schema;
+}
@@ -0,0 +1,155 @@
+import type { LlmConnectionConfig, SecretRef } from "./parse.js";
+
+/** `scheme:ref` in the apiKey segment. */
+const SECRET_REF_RE = /^([a-z][a-z0-9+.-]*):(.+)$/s;
+
+/**
+ * Look up a secret by reference. Receives everything after the scheme
+ * (`OPENAI_API_KEY` for `env:OPENAI_API_KEY`) and returns the secret value,
+ * or `undefined` if it doesn't exist.
+ */
+export type SecretResolver = (
+  ref: string,
+) => string | undefined | Promise<string | undefined>;
+
+/** Minimal slice of `node:fs/promises` used by the `file:` resolver. */
+interface FsPromises {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+}
+
+// Kept out of a static import so the package still bundles for browsers
+const FS_MODULE = "node:fs/promises";
+
+/** `env:NAME` — read from `process.env`. */
+const resolveEnv: SecretResolver = (name) => {
+  const env = (
+    globalThis as { process?: { env?: Record<string, string | undefined> } }
+  ).process?.env;
+  return env?.[name];
+};
+
+/** `file:/path` — read a file (e.g. a Docker or Kubernetes secret mount), trimming the trailing newline. */
+const resolveFile: SecretResolver = async (path) => {
+  const fs = (await import(FS_MODULE)) as FsPromises;
+  const contents = await fs.readFile(path, "utf8");
+  return contents.replace(/\r?\n$/, "");
+};
+
+/** Resolvers available without any configuration. */
+export const DEFAULT_SECRET_RESOLVERS: Readonly<Record<string, SecretResolver>> = {
+  env: resolveEnv,
+  file: resolveFile,
+};
+
+/** Resolvers added with `registerSecretResolver()`. */
+const customResolvers: Record<string, SecretResolver> = {};
+
+/**
+ * Register a resolver for a custom scheme, or replace a previously
+ * registered one. Built-in schemes can't be replaced; pass `resolvers` to
+ * `resolveSecrets()` to override them for one call.
+ *
+ * @example
+ * ```ts
+ * registerSecretResolver("vault", (path) => vaultClient.read(path));
+ * parse("llm://app:vault:llm%2Fopenai@api.openai.com/gpt-5.2").apiKeyRef;
+ * // → { scheme: "vault", ref: "llm/openai" }
+ * ```
+ */
+export function registerSecretResolver(scheme: string, resolver: SecretResolver): void {
+  if (Object.hasOwn(DEFAULT_SECRET_RESOLVERS, scheme)) {
+    throw new Error(`Cannot register "${scheme}:": it is a built-in secret scheme`);
+  }
+  if (!/^[a-z][a-z0-9+.-]*$/.test(scheme)) {
+    throw new Error(`Invalid secret scheme "${scheme}"`);
+  }
+  customResolvers[scheme] = resolver;
+}
+
+/** Remove a custom secret resolver. Returns `false` if it wasn't registered. */
+export function unregisterSecretResolver(scheme: string): boolean {
+  if (!Object.hasOwn(customResolvers, scheme)) return false;
+  delete customResolvers[scheme];
+  return true;
+}
+
+/** The resolver for a scheme: from `resolvers`, then registered, then built-in. */
+function findResolver(
+  scheme: string,
+  resolvers: Record<string, SecretResolver>,
+): SecretResolver | undefined {
+  for (const source of [resolvers, customResolvers, DEFAULT_SECRET_RESOLVERS]) {
+    if (Object.hasOwn(source, scheme)) return source[scheme];
+  }
+  return undefined;
+}
+
+/**
+ * Parse a secret reference like `env:OPENAI_API_KEY`.
+ *
+ * Only schemes with a resolver count — built-in, registered, or in
+ * `resolvers` — so a literal key that happens to contain a colon
+ * (`abc:defghijklmnop`) isn't mistaken for one. Returns `undefined` for
+ * literal keys.
+ */
+export function parseSecretRef(
+  apiKey: string,
+  resolvers: Record<string, SecretResolver> = {},
+): SecretRef | undefined {
+  const match = SECRET_REF_RE.exec(apiKey);
+  return match && findResolver(match[1], resolvers)
+    ? { scheme: match[1], ref: match[2] }
+    : undefined;
+}
+
+/**
+ * Replace a secret reference in the apiKey segment with the secret itself.
+ *
+ * `env:` and `file:` work out of the box; register more schemes with
+ * `registerSecretResolver()`, or pass `resolvers` to add schemes (e.g.
+ * `vault:`) or override the built-in ones for this call. Configs with a
+ * literal apiKey (or none) are returned unchanged.
+ *
+ * Throws if the scheme has no resolver or the secret can't be found.
+ * Error messages name the reference, never the secret.
+ *
+ * @example
+ * ```ts
+ * const config = await resolveSecrets(parse("llm://app:env:OPENAI_API_KEY@api.openai.com/gpt-5.2"));
+ * config.apiKey; // → value of process.env.OPENAI_API_KEY
+ * ```
+ */
+export async function resolveSecrets(
+  config: LlmConnectionConfig,
+  resolvers: Record<string, SecretResolver> = {},
+): Promise<LlmConnectionConfig> {
+  // `parse()` only knew the registered schemes; `resolvers` may add more
+  const ref =
+    config.apiKeyRef ??
+    (config.apiKey !== undefined ? parseSecretRef(config.apiKey, resolvers) : undefined);
+  if (!ref) return config;
+
+  const resolver = findResolver(ref.scheme, resolvers);
+  if (!resolver) {
+    throw new Error(`No secret resolver for scheme "${ref.scheme}:"`);
+  }
+
+  let secret: string | undefined;
+  try {
+    secret = await resolver(ref.ref);
+  } catch (cause) {
+    throw new Error(`Could not resolve secret "${config.apiKey}"`, { cause });
+  }
+  if (secret === undefined || secret === "") {
+    throw new Error(`Secret "${config.apiKey}" is not set`);
+  }
+
+  // Copy descriptors, not just enumerable props, to keep the redacting toJSON/inspect hooks
+  const resolved = Object.defineProperties(
+    {},
+    Object.getOwnPropertyDescriptors(config),
+  ) as LlmConnectionConfig;
+  resolved.apiKey = secret;
+  delete resolved.apiKeyRef;
+  return resolved;
+}
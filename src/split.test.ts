@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { LlmStringError } from "./parse.js";
+import { parseSplit, pick, validateSplit } from "./split.js";
+
+const CLAUDE = "llm://api.anthropic.com/claude-sonnet-4-6?temp=0.7";
+const GPT = "llm://api.openai.com/gpt-5.2?temp=0.7";
+
+describe("parseSplit", () => {
+  it("reads weights from #w= fragments", () => {
+    const split = parseSplit(`${CLAUDE}#w=90, ${GPT}#w=10`);
+
+    expect(split.map((variant) => variant.weight)).toEqual([90, 10]);
+    expect(split[0].config.model).toBe("claude-sonnet-4-6");
+    expect(split[0].config.raw).toBe(CLAUDE);
+    expect(split[1].config.params).toEqual({ temp: "0.7" });
+  });
+
+  it("accepts a list of strings and objects", () => {
+    const split = parseSplit([`${CLAUDE}#w=70`, { connectionString: GPT, weight: 30 }]);
+    expect(split.map((variant) => variant.weight)).toEqual([70, 30]);
+  });
+
+  it("shares the remainder between unweighted variants", () => {
+    expect(parseSplit(`${CLAUDE}#w=90 ${GPT}`).map((variant) => variant.weight)).toEqual([90, 10]);
+    expect(parseSplit([CLAUDE, GPT]).map((variant) => variant.weight)).toEqual([50, 50]);
+  });
+
+  it("throws for malformed strings and weights", () => {
+    expect(() => parseSplit("")).toThrow(LlmStringError);
+    expect(() => parseSplit(`${CLAUDE}#w=90, llm://api.openai.com`)).toThrow(LlmStringError);
+    expect(() => parseSplit(`${CLAUDE}#w=-5`)).toThrow(
+      'weight of variant 0 should be a non-negative number, got "-5"',
+    );
+  });
+});
+
+describe("pick", () => {
+  const split = parseSplit(`${CLAUDE}#w=90, ${GPT}#w=10`);
+
+  it("picks the same variant for the same key", () => {
+    for (const key of ["user-1", "user-2", "req-abc"]) {
+      expect(pick(split, key)).toBe(pick(split, key));
+    }
+  });
+
+  it("spreads keys in proportion to the weights", () => {
+    let gpt = 0;
+    for (let i = 0; i < 10000; i++) {
+      if (pick(split, `user-${i}`) === split[1]) gpt++;
+    }
+    expect(gpt).toBeGreaterThan(800);
+    expect(gpt).toBeLessThan(1200);
+  });
+
+  it("never picks variants weighted 0", () => {
+    const off = parseSplit([`${CLAUDE}#w=100`, `${GPT}#w=0`]);
+    for (let i = 0; i < 1000; i++) {
+      expect(pick(off, `user-${i}`)).toBe(off[0]);
+    }
+  });
+
+  it("throws without weighted variants", () => {
+    expect(() => pick([], "user-1")).toThrow("without weighted variants");
+    expect(() => pick(parseSplit(`${CLAUDE}#w=0`), "user-1")).toThrow();
+  });
+});
+
+describe("validateSplit", () => {
+  it("returns no issues for a valid split", () => {
+    expect(validateSplit(`${CLAUDE}#w=90, ${GPT}#w=10`)).toEqual([]);
+    expect(validateSplit(`${CLAUDE}#w=90, ${GPT}`)).toEqual([]);
+  });
+
+  it("checks that weights add up to 100", () => {
+    const issues = validateSplit(`${CLAUDE}#w=90, ${GPT}#w=20`);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ param: "w", severity: "error" });
+    expect(issues[0].message).toBe("Weights must add up to 100, got 110.");
+
+    expect(validateSplit(`${CLAUDE}#w=50, ${GPT}#w=20`)[0].message).toContain("got 70");
+  });
+
+  it("flags malformed weights and variants that are never picked", () => {
+    expect(validateSplit(`${CLAUDE}#w=ninety, ${GPT}#w=100`)[0]).toMatchObject({
+      variant: 0,
+      value: "ninety",
+      severity: "error",
+    });
+    expect(validateSplit(`${CLAUDE}#w=100, ${GPT}#w=0`)).toEqual([
+      expect.objectContaining({ variant: 1, severity: "warning" }),
+    ]);
+    expect(validateSplit(`${CLAUDE}#w=100, ${GPT}`)).toEqual([
+      expect.objectContaining({ variant: 1, severity: "warning" }),
+    ]);
+  });
+
+  it("validates each variant", () => {
+    const issues = validateSplit(`${CLAUDE}#w=90, llm://api.openai.com/gpt-5.2?temp=3#w=10`);
+    expect(issues).toEqual([
+      expect.objectContaining({ variant: 1, param: "temperature", severity: "error" }),
+    ]);
+
+    expect(validateSplit(`${CLAUDE}#w=90, llm://api.openai.com#w=10`)[0]).toMatchObject({
+      variant: 1,
+      code: "MISSING_MODEL",
+    });
+  });
+
+  it("rejects an empty split", () => {
+    expect(validateSplit([])[0].message).toContain("at least one variant");
+  });
+});
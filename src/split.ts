@@ -0,0 +1,245 @@
+import {
+  parse,
+  splitConnectionStrings,
+  type LlmConnectionConfig,
+} from "./parse.js";
+import { validate, type ValidateOptions, type ValidationIssue } from "./validate.js";
+
+/** One variant of a traffic split. */
+export interface SplitVariant {
+  /** The variant's config. `raw` is the connection string without the `#w=` fragment. */
+  config: LlmConnectionConfig;
+  /** Share of traffic, in percent. */
+  weight: number;
+}
+
+/** A variant given as an object rather than a `#w=` fragment. */
+export interface SplitVariantInput {
+  connectionString: string;
+  /** Share of traffic, in percent. Omit to share the remainder with other unweighted variants. */
+  weight?: number;
+}
+
+/** A `validateSplit()` issue, tagged with the variant it's about. */
+export interface SplitIssue extends ValidationIssue {
+  /** Index of the variant. */
+  variant: number;
+}
+
+export type SplitInput = string | (string | SplitVariantInput)[];
+
+/** Fragment param holding a variant's weight (`llm://…#w=90`). */
+export const WEIGHT_PARAM = "w";
+
+/** Weights must add up to this, give or take float noise. */
+const TOTAL_WEIGHT = 100;
+const WEIGHT_EPSILON = 1e-9;
+
+interface RawVariant {
+  connectionString: string;
+  /** Weight as written, or `undefined` when omitted. */
+  weight: string | undefined;
+}
+
+/** Separate each variant's connection string from its weight. */
+function splitVariants(input: SplitInput): RawVariant[] {
+  const entries = typeof input === "string" ? splitConnectionStrings(input) : input;
+  return entries.map((entry) => {
+    if (typeof entry !== "string") {
+      return {
+        connectionString: entry.connectionString,
+        weight: entry.weight === undefined ? undefined : String(entry.weight),
+      };
+    }
+    const hash = entry.indexOf("#");
+    if (hash === -1) return { connectionString: entry, weight: undefined };
+    const fragment = new URLSearchParams(entry.slice(hash + 1));
+    return {
+      connectionString: entry.slice(0, hash),
+      weight: fragment.get(WEIGHT_PARAM) ?? undefined,
+    };
+  });
+}
+
+/** A weight as a number, or `undefined` if it isn't a non-negative number. */
+function parseWeight(weight: string): number | undefined {
+  const num = Number(weight);
+  return weight.trim() === "" || !Number.isFinite(num) || num < 0 ? undefined : num;
+}
+
+/**
+ * Fill in omitted weights: unweighted variants share what the weighted ones
+ * leave of 100%, equally.
+ */
+function resolveWeights(weights: (number | undefined)[]): number[] {
+  const given = weights.reduce<number>((sum, weight) => sum + (weight ?? 0), 0);
+  const unweighted = weights.filter((weight) => weight === undefined).length;
+  const share = unweighted > 0 ? Math.max(0, TOTAL_WEIGHT - given) / unweighted : 0;
+  return weights.map((weight) => weight ?? share);
+}
+
+/**
+ * Parse a weighted traffic split, e.g. for A/B model evaluations.
+ *
+ * Variants are connection strings with a `#w=<percent>` fragment, separated
+ * by commas or whitespace before each `llm://`, or given as an array of
+ * strings or `{ connectionString, weight }` objects. Variants without a
+ * weight share the rest of 100% equally, so `llm://a#w=90, llm://b` gives
+ * `b` 10%. Use `validateSplit()` to check that weights add up to 100.
+ *
+ * Throws an `LlmStringError` for a malformed connection string, and an
+ * `Error` for a weight that isn't a non-negative number.
+ *
+ * @example
+ * ```ts
+ * parseSplit("llm://api.anthropic.com/claude-sonnet-4-6#w=90, llm://api.openai.com/gpt-5.2#w=10");
+ * // → [{ config: { host: "api.anthropic.com", model: "claude-sonnet-4-6", … }, weight: 90 },
+ * //    { config: { host: "api.openai.com", model: "gpt-5.2", … }, weight: 10 }]
+ * ```
+ */
+export function parseSplit(input: SplitInput): SplitVariant[] {
+  const variants = splitVariants(input);
+  // An empty split still goes through parse() so it fails like an empty string
+  if (variants.length === 0) parse("");
+  const weights = variants.map(({ weight }, index) => {
+    if (weight === undefined) return undefined;
+    const num = parseWeight(weight);
+    if (num === undefined) {
+      throw new Error(
+        `Cannot parse split: weight of variant ${index} should be a non-negative number, got "${weight}"`,
+      );
+    }
+    return num;
+  });
+  const resolved = resolveWeights(weights);
+  return variants.map(({ connectionString }, index) => ({
+    config: parse(connectionString),
+    weight: resolved[index],
+  }));
+}
+
+/** 32-bit FNV-1a hash of a string's UTF-16 code units. */
+function fnv1a(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pick a split variant for a key, such as a user or request ID. The same
+ * key always gets the same variant for the same split, and keys spread
+ * across variants in proportion to their weights. Weights are relative, so
+ * they don't have to add up to 100 here.
+ *
+ * Throws if the split is empty or all its weights are 0.
+ *
+ * @example
+ * ```ts
+ * const split = parseSplit(process.env.LLM_SPLIT);
+ * const { config } = pick(split, user.id);
+ * ```
+ */
+export function pick(split: SplitVariant[], key: string): SplitVariant {
+  const total = split.reduce((sum, variant) => sum + variant.weight, 0);
+  if (!(total > 0)) {
+    throw new Error("Cannot pick from a split without weighted variants");
+  }
+  // Map the hash onto [0, total) and find the variant whose range holds it
+  const point = (fnv1a(key) / 2 ** 32) * total;
+  let end = 0;
+  for (const variant of split) {
+    end += variant.weight;
+    if (point < end) return variant;
+  }
+  // Float rounding can leave the point just past the last range
+  return split.findLast((variant) => variant.weight > 0)!;
+}
+
+/**
+ * Validate a traffic split. Each variant is checked with `validate()`, and
+ * issues carry the index of the variant they're about. Also checks weights:
+ * each must be a non-negative number, and together they must add up to
+ * 100 (unweighted variants count as sharing the remainder). A variant
+ * weighted 0 is never picked, which gets a warning.
+ *
+ * A variant that can't be parsed yields an error issue with the parse
+ * error's `code`, as with `validate()`.
+ */
+export function validateSplit(
+  input: SplitInput,
+  options: ValidateOptions = {},
+): SplitIssue[] {
+  const issues: SplitIssue[] = [];
+  const variants = splitVariants(input);
+  if (variants.length === 0) {
+    return [
+      {
+        variant: 0,
+        param: "split",
+        value: "",
+        message: "A split needs at least one variant.",
+        severity: "error",
+      },
+    ];
+  }
+
+  const weights = variants.map(({ weight }, variant) => {
+    if (weight === undefined) return undefined;
+    const num = parseWeight(weight);
+    if (num === undefined) {
+      issues.push({
+        variant,
+        param: WEIGHT_PARAM,
+        value: weight,
+        message: `Weight should be a non-negative number (a percentage), got "${weight}".`,
+        severity: "error",
+      });
+      // Count it as 0 so the sum check still reports the rest
+      return 0;
+    }
+    if (num === 0) {
+      issues.push({
+        variant,
+        param: WEIGHT_PARAM,
+        value: weight,
+        message: "Weight is 0, so this variant is never picked.",
+        severity: options.strict ? "error" : "warning",
+      });
+    }
+    return num;
+  });
+
+  const given = weights.reduce<number>((sum, weight) => sum + (weight ?? 0), 0);
+  const allWeighted = weights.every((weight) => weight !== undefined);
+  if (
+    given > TOTAL_WEIGHT + WEIGHT_EPSILON ||
+    (allWeighted && Math.abs(given - TOTAL_WEIGHT) > WEIGHT_EPSILON)
+  ) {
+    issues.push({
+      variant: 0,
+      param: WEIGHT_PARAM,
+      value: String(given),
+      message: `Weights must add up to ${TOTAL_WEIGHT}, got ${given}.`,
+      severity: "error",
+    });
+  } else if (!allWeighted && given >= TOTAL_WEIGHT - WEIGHT_EPSILON) {
+    issues.push({
+      variant: weights.indexOf(undefined),
+      param: WEIGHT_PARAM,
+      value: "",
+      message: `Weighted variants already take ${TOTAL_WEIGHT}%, so unweighted variants are never picked.`,
+      severity: options.strict ? "error" : "warning",
+    });
+  }
+
+  for (const [variant, { connectionString }] of variants.entries()) {
+    for (const issue of validate(connectionString, options)) {
+      issues.push({ variant, ...issue });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,117 @@
+import type { Provider } from "./provider-core.js";
+
+/** MIME type Gemini's `responseMimeType` takes for JSON output. */
+export const JSON_MIME_TYPE = "application/json";
+
+/**
+ * JSON Schema keywords each provider's structured-output mode rejects.
+ * Providers not listed accept any schema (or don't document limits).
+ */
+const UNSUPPORTED_SCHEMA_KEYWORDS: Partial<Record<Provider, string[]>> = {
+  // Strict mode structured outputs
+  openai: ["allOf", "not", "if", "then", "else", "dependentRequired", "dependentSchemas", "patternProperties"],
+  azure: ["allOf", "not", "if", "then", "else", "dependentRequired", "dependentSchemas", "patternProperties"],
+  anthropic: ["not", "if", "then", "else", "dependentRequired", "dependentSchemas", "patternProperties", "minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf", "minLength", "maxLength"],
+  // Gemini's responseSchema is an OpenAPI 3.0 subset
+  google: ["$ref", "$defs", "allOf", "oneOf", "not", "if", "then", "else", "const", "additionalProperties", "patternProperties", "dependentRequired", "dependentSchemas"],
+};
+
+/** Providers whose strict mode needs `additionalProperties: false` on every object. */
+const CLOSED_OBJECT_PROVIDERS = new Set<Provider>(["openai", "azure", "anthropic"]);
+
+/** Providers whose strict mode needs every property listed in `required`. */
+const ALL_REQUIRED_PROVIDERS = new Set<Provider>(["openai", "azure"]);
+
+/** Subschema-valued keywords to descend into. */
+const SUBSCHEMA_KEYWORDS = ["items", "additionalProperties", "not", "if", "then", "else"];
+/** Keywords holding arrays of subschemas. */
+const SUBSCHEMA_LIST_KEYWORDS = ["anyOf", "oneOf", "allOf", "prefixItems"];
+/** Keywords holding maps of name → subschema. */
+const SUBSCHEMA_MAP_KEYWORDS = ["properties", "$defs", "definitions", "patternProperties"];
+
+type SchemaObject = Record<string, unknown>;
+
+function isSchemaObject(value: unknown): value is SchemaObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a `schema` param value. Returns `undefined` unless it's a JSON
+ * object (a JSON Schema document).
+ */
+export function parseSchemaParam(value: string): SchemaObject | undefined {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return isSchemaObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Visit every subschema with its JSON Pointer, root first. */
+function walkSchema(
+  schema: SchemaObject,
+  path: string,
+  visit: (schema: SchemaObject, path: string) => void,
+): void {
+  visit(schema, path);
+  for (const keyword of SUBSCHEMA_KEYWORDS) {
+    const sub = schema[keyword];
+    if (isSchemaObject(sub)) walkSchema(sub, `${path}/${keyword}`, visit);
+  }
+  for (const keyword of SUBSCHEMA_LIST_KEYWORDS) {
+    const list = schema[keyword];
+    if (!Array.isArray(list)) continue;
+    list.forEach((sub, i) => {
+      if (isSchemaObject(sub)) walkSchema(sub, `${path}/${keyword}/${i}`, visit);
+    });
+  }
+  for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+    const map = schema[keyword];
+    if (!isSchemaObject(map)) continue;
+    for (const [name, sub] of Object.entries(map)) {
+      if (isSchemaObject(sub)) walkSchema(sub, `${path}/${keyword}/${name}`, visit);
+    }
+  }
+}
+
+/**
+ * Problems a provider would reject in a structured-output schema: unsupported
+ * keywords and, for strict modes, a non-object root and objects that aren't
+ * closed with `additionalProperties: false` or leave properties optional.
+ * Each problem is one message.
+ */
+export function findSchemaProblems(schema: SchemaObject, provider: Provider): string[] {
+  const problems: string[] = [];
+  if (CLOSED_OBJECT_PROVIDERS.has(provider) && schema.type !== "object") {
+    problems.push(`the root schema must have "type": "object"`);
+  }
+
+  const unsupported = UNSUPPORTED_SCHEMA_KEYWORDS[provider] ?? [];
+  const reported = new Set<string>();
+  walkSchema(schema, "#", (sub, path) => {
+    for (const keyword of unsupported) {
+      if (Object.hasOwn(sub, keyword) && !reported.has(keyword)) {
+        reported.add(keyword);
+        problems.push(`${provider} doesn't support "${keyword}" (at ${path})`);
+      }
+    }
+    if (
+      CLOSED_OBJECT_PROVIDERS.has(provider) &&
+      sub.type === "object" &&
+      sub.additionalProperties !== false
+    ) {
+      problems.push(`${provider} requires "additionalProperties": false on objects (at ${path})`);
+    }
+    if (ALL_REQUIRED_PROVIDERS.has(provider) && isSchemaObject(sub.properties)) {
+      const required = Array.isArray(sub.required) ? sub.required : [];
+      const optional = Object.keys(sub.properties).filter((name) => !required.includes(name));
+      if (optional.length > 0) {
+        problems.push(
+          `${provider} requires every property in "required"; missing ${optional.join(", ")} (at ${path})`,
+        );
+      }
+    }
+  });
+  return problems;
+}
@@ -1,22 +1,51 @@
-import { parse } from "./parse.js";
+import {
+  safeParse,
+  splitListValue,
+  type LlmStringErrorCode,
+} from "./parse.js";
+import { getModelInfo } from "./model-catalog.js";
 import { normalize } from "./normalize.js";
+import { PRESETS, PRESET_PARAM } from "./presets.js";
+import { redact } from "./redact.js";
 import {
+  ALIASES,
+  AZURE_API_VERSION_RE,
+  BEDROCK_REGIONS,
+  DEEPSEEK_REASONER_IGNORED,
+  GATEWAY_PROVIDER_SLUGS,
+  GATEWAY_ROUTING_PARAMS,
   PARAM_SPECS,
+  PROVIDER_HINT,
   PROVIDER_PARAMS,
   REASONING_MODEL_UNSUPPORTED,
+  bedrockProfileForRegion,
+  bedrockProfileMatchesRegion,
+  bedrockRequiresInferenceProfile,
   bedrockSupportsCaching,
-  canHostOpenAIModels,
+  detectBedrockInferenceProfile,
   detectBedrockModelFamily,
-  isReasoningModel,
+  detectBedrockRegion,
+  isDeepSeekReasoner,
+  isGatewayProvider,
+  isReasoningTarget,
+  paramMapFor,
+  paramSpecsFor,
   type ParamSpec,
   type Provider,
 } from "./provider-core.js";
+import {
+  JSON_MIME_TYPE,
+  findSchemaProblems,
+  parseSchemaParam,
+} from "./structured-output.js";
 
 export interface ValidationIssue {
   param: string;
   value: string;
   message: string;
   severity: "error" | "warning";
+  /** Set when the connection string itself couldn't be parsed. */
+  code?: LlmStringErrorCode;
 }
 
 export interface ValidateOptions {
@@ -28,12 +57,10 @@ export interface ValidateOptions {
  * Build a reverse map from provider-specific param names back to canonical names.
  */
 function buildReverseParamMap(
-  provider: Provider,
+  paramMap: Record<string, string>,
 ): Record<string, string> {
   const map: Record<string, string> = {};
-  for (const [canonical, specific] of Object.entries(
-    PROVIDER_PARAMS[provider],
-  )) {
+  for (const [canonical, specific] of Object.entries(paramMap)) {
     map[specific] = canonical;
   }
   return map;
@@ -55,7 +82,8 @@ function lookupSubProviderSpec(
 }
 
 /**
- * Build the set of gateway param names that correspond to params the sub-provider supports.
+ * Build the set of gateway param names that correspond to params the
+ * sub-provider supports, plus the gateway's own routing params.
  */
 function buildSubProviderKnownParams(
   gateway: Provider,
@@ -68,7 +96,7 @@ function buildSubProviderKnownParams(
   for (const [canonical, gatewaySpecific] of Object.entries(
     PROVIDER_PARAMS[gateway],
   )) {
-    if (subProviderCanonicals.has(canonical)) {
+    if (subProviderCanonicals.has(canonical) || GATEWAY_ROUTING_PARAMS.has(canonical)) {
       known.add(gatewaySpecific);
     }
   }
@@ -81,16 +109,58 @@ function buildSubProviderKnownParams(
  * Parses and normalizes the string, then checks params against provider specs.
  * For gateway providers (OpenRouter, Vercel), detects the sub-provider from the
  * model prefix and validates against the sub-provider's rules when known.
+ * Vertex AI models are validated against their publisher's rules.
+ * Models in the capability catalog (`getModelInfo()`) also have `max_tokens`
+ * checked against their output limit and `effort` against reasoning support.
+ * A structured-output `schema` must be a JSON object using only the
+ * features the provider's structured-output mode accepts.
  * Returns a list of issues found. An empty array means all params look valid.
+ * A string that can't be parsed yields a single error issue carrying the
+ * parse error's `code`, rather than throwing.
  */
 export function validate(
   connectionString: string,
   options: ValidateOptions = {},
 ): ValidationIssue[] {
-  const parsed = parse(connectionString);
+  const result = safeParse(connectionString);
+  if (!result.ok) {
+    return [
+      {
+        param: "connectionString",
+        value: redact(connectionString),
+        message: result.error.message,
+        severity: "error",
+        code: result.error.code,
+      },
+    ];
+  }
+
+  const parsed = result.config;
   const { config, provider, subProvider } = normalize(parsed);
   const issues: ValidationIssue[] = [];
 
+  const hint = parsed.params[PROVIDER_HINT];
+  if (hint !== undefined && !Object.hasOwn(PROVIDER_PARAMS, hint)) {
+    issues.push({
+      param: PROVIDER_HINT,
+      value: hint,
+      message: `Unknown provider hint "${hint}". Falling back to host detection.`,
+      severity: options.strict ? "error" : "warning",
+    });
+  }
+
+  const presets = parsed.params[PRESET_PARAM];
+  for (const name of presets === undefined ? [] : splitListValue(presets)) {
+    if (!Object.hasOwn(PRESETS, name)) {
+      issues.push({
+        param: PRESET_PARAM,
+        value: name,
+        message: `Unknown preset "${name}". Known presets: ${Object.keys(PRESETS).join(", ")}.`,
+        severity: options.strict ? "error" : "warning",
+      });
+    }
+  }
+
   if (!provider) {
     issues.push({
       param: "host",
@@ -101,24 +171,102 @@ export function validate(
     return issues;
   }
 
+  // Azure OpenAI rejects requests without an api-version query param
+  if (provider === "azure") {
+    const apiVersion = config.params["api-version"];
+    if (apiVersion === undefined) {
+      issues.push({
+        param: "api-version",
+        value: "",
+        message: `Azure OpenAI requires an "api-version" param (e.g. api-version=2025-04-01-preview).`,
+        severity: "error",
+      });
+    } else if (!AZURE_API_VERSION_RE.test(apiVersion)) {
+      issues.push({
+        param: "api-version",
+        value: apiVersion,
+        message: `"api-version" should be a date like 2025-04-01 (optionally with -preview) or "v1", got "${apiVersion}".`,
+        severity: "error",
+      });
+    }
+  }
+
+  // Vertex AI needs a project to build the request URL
+  if (provider === "vertex" && config.params.project === undefined) {
+    issues.push({
+      param: "project",
+      value: "",
+      message: `Vertex AI requests need a Google Cloud project. Add "project=<project-id>".`,
+      severity: options.strict ? "error" : "warning",
+    });
+  }
+
+  // Bedrock inference profiles can only be called from regions in their geography
+  if (provider === "bedrock") {
+    const region = detectBedrockRegion(config.host);
+    const profile = detectBedrockInferenceProfile(config.model);
+    if (region !== undefined && !BEDROCK_REGIONS.includes(region)) {
+      issues.push({
+        param: "host",
+        value: config.host,
+        message: `Unknown Bedrock region "${region}".`,
+        severity: options.strict ? "error" : "warning",
+      });
+    }
+    if (profile && region && !bedrockProfileMatchesRegion(profile, region)) {
+      const suggested = bedrockProfileForRegion(region);
+      issues.push({
+        param: "model",
+        value: config.model,
+        message:
+          `Inference profile "${profile}." can't be called from region "${region}".` +
+          (suggested
+            ? ` Use the "${suggested}." profile or a region in that geography.`
+            : ` Use a region in that geography.`),
+        severity: "error",
+      });
+    } else if (!profile && bedrockRequiresInferenceProfile(config.model)) {
+      const suggested = (region && bedrockProfileForRegion(region)) ?? "us";
+      issues.push({
+        param: "model",
+        value: config.model,
+        message: `"${config.model}" likely needs a cross-region inference profile on Bedrock (e.g. "${suggested}.${config.model}").`,
+        severity: options.strict ? "error" : "warning",
+      });
+    }
+  }
+
   // When routing through a gateway to a known sub-provider, validate against
   // the sub-provider's specs. Fall back to the gateway's loose specs otherwise.
+  // Vertex AI takes the publisher's native params, so its specs apply directly.
   const effectiveProvider = subProvider ?? provider;
-  const specs = PARAM_SPECS[effectiveProvider];
+  const viaGateway = subProvider !== undefined && isGatewayProvider(provider);
+  const specs = viaGateway
+    ? PARAM_SPECS[effectiveProvider]
+    : paramSpecsFor(provider, subProvider);
 
-  const gatewayReverseMap = subProvider
-    ? buildReverseParamMap(provider)
+  const gatewayReverseMap = viaGateway
+    ? buildReverseParamMap(PROVIDER_PARAMS[provider])
     : undefined;
 
-  const knownParams = subProvider
+  const paramMap = paramMapFor(provider, subProvider);
+  const reverseParamMap = buildReverseParamMap(paramMap);
+  const modelInfo = getModelInfo(provider, config.model);
+
+  const knownParams = viaGateway
     ? buildSubProviderKnownParams(provider, subProvider)
-    : new Set(Object.values(PROVIDER_PARAMS[provider]));
+    : new Set(Object.values(paramMap));
+
+  // Claude directly, on Vertex AI, via a gateway, or on Bedrock
+  const claudeModel =
+    effectiveProvider === "anthropic" ||
+    (provider === "bedrock" &&
+      detectBedrockModelFamily(config.model) === "anthropic");
 
   for (const [key, value] of Object.entries(config.params)) {
     // Check for OpenAI reasoning model restrictions (direct or via gateway)
     if (
-      canHostOpenAIModels(provider) &&
-      isReasoningModel(config.model) &&
+      isReasoningTarget(provider, config.model) &&
       REASONING_MODEL_UNSUPPORTED.has(key)
     ) {
       issues.push({
@@ -130,6 +278,21 @@ export function validate(
       continue;
     }
 
+    // DeepSeek's reasoning models accept sampling params but ignore them
+    if (
+      effectiveProvider === "deepseek" &&
+      isDeepSeekReasoner(config.model) &&
+      DEEPSEEK_REASONER_IGNORED.has(key)
+    ) {
+      issues.push({
+        param: key,
+        value,
+        message: `"${key}" has no effect on DeepSeek reasoning model "${config.model}"; it's accepted but ignored.`,
+        severity: options.strict ? "error" : "warning",
+      });
+      continue;
+    }
+
     // Bedrock model-family-specific checks
     if (provider === "bedrock") {
       const family = detectBedrockModelFamily(config.model);
@@ -151,6 +314,17 @@ export function validate(
         continue;
       }
 
+      // Extended thinking is a Claude feature on Bedrock
+      if (key === "budget_tokens" && family && family !== "anthropic") {
+        issues.push({
+          param: key,
+          value,
+          message: `Extended thinking ("budget_tokens") is not supported by ${family} models on Bedrock.`,
+          severity: "error",
+        });
+        continue;
+      }
+
       // cache_control is only supported by Claude and Nova on Bedrock
       if (key === "cache_control" && !bedrockSupportsCaching(config.model)) {
         issues.push({
@@ -163,6 +337,34 @@ export function validate(
       }
     }
 
+    // Model-specific limits and features from the capability catalog
+    if (modelInfo) {
+      const canonicalKey = Object.hasOwn(reverseParamMap, key)
+        ? reverseParamMap[key]
+        : Object.hasOwn(ALIASES, key)
+          ? ALIASES[key]
+          : key;
+      const outputLimit = modelInfo.maxOutputTokens ?? modelInfo.contextWindow;
+      if (canonicalKey === "max_tokens" && Number(value) > outputLimit) {
+        issues.push({
+          param: key,
+          value,
+          message: `"${key}" exceeds ${modelInfo.id}'s limit of ${outputLimit} output tokens, got ${value}.`,
+          severity: "error",
+        });
+        continue;
+      }
+      if ((canonicalKey === "effort" || canonicalKey === "thinking") && !modelInfo.reasoning) {
+        issues.push({
+          param: key,
+          value,
+          message: `"${key}" needs a reasoning model; ${modelInfo.id} doesn't support reasoning.`,
+          severity: "error",
+        });
+        continue;
+      }
+    }
+
     // Check if param is known for this provider (or sub-provider)
     if (!knownParams.has(key) && !specs[key]) {
       issues.push({
@@ -184,14 +386,16 @@ export function validate(
         subProvider,
       );
       spec = result.spec;
+      // Routing params configure the gateway itself
+      if (!spec && GATEWAY_ROUTING_PARAMS.has(result.canonical)) {
+        spec = PARAM_SPECS[provider][key];
+      }
     }
     if (!spec) continue;
 
     // Anthropic (and Bedrock Claude, and Anthropic via gateway) mutual exclusion for temperature/top_p
     if (
-      (effectiveProvider === "anthropic" ||
-        (provider === "bedrock" &&
-          detectBedrockModelFamily(config.model) === "anthropic")) &&
+      claudeModel &&
       (key === "temperature" || key === "top_p" || key === "topP")
     ) {
       const otherKey =
@@ -251,6 +455,36 @@ export function validate(
       }
     }
 
+    if (spec.type === "string[]") {
+      const items = splitListValue(value);
+      const allowed = spec.values;
+      const unknown = allowed ? items.filter((item) => !allowed.includes(item)) : [];
+      if (allowed && unknown.length > 0) {
+        issues.push({
+          param: key,
+          value,
+          message: `"${key}" items must be one of [${allowed.join(", ")}], got "${unknown.join(", ")}".`,
+          severity: "error",
+        });
+      }
+      if (items.includes("")) {
+        issues.push({
+          param: key,
+          value,
+          message: `"${key}" contains an empty item.`,
+          severity: "error",
+        });
+      }
+      if (spec.maxItems !== undefined && items.length > spec.maxItems) {
+        issues.push({
+          param: key,
+          value,
+          message: `"${key}" accepts at most ${spec.maxItems} items, got ${items.length}.`,
+          severity: "error",
+        });
+      }
+    }
+
     if (spec.type === "string" && spec.values) {
       if (!spec.values.includes(value)) {
         issues.push({
@@ -263,5 +497,145 @@ export function validate(
     }
   }
 
+  // Extended thinking spends its budget out of max_tokens, and Claude
+  // doesn't allow sampling changes while thinking
+  const thinkingKey = paramMap.thinking;
+  const budgetValue = thinkingKey ? config.params[thinkingKey] : undefined;
+  const budget = Number(budgetValue);
+  if (thinkingKey && budgetValue !== undefined && budget > 0) {
+    const maxKey = paramMap.max_tokens;
+    const maxValue = maxKey ? config.params[maxKey] : undefined;
+    if (maxValue !== undefined && budget >= Number(maxValue)) {
+      issues.push({
+        param: thinkingKey,
+        value: budgetValue,
+        message: `"${thinkingKey}" (${budgetValue}) must be less than "${maxKey}" (${maxValue}).`,
+        severity: "error",
+      });
+    }
+
+    if (claudeModel) {
+      const temperature = config.params[paramMap.temperature];
+      if (temperature !== undefined && Number(temperature) !== 1) {
+        issues.push({
+          param: paramMap.temperature,
+          value: temperature,
+          message: `"${paramMap.temperature}" must be 1 (or unset) with extended thinking, got ${temperature}.`,
+          severity: "error",
+        });
+      }
+      const topP = config.params[paramMap.top_p];
+      if (topP !== undefined && Number(topP) < 0.95) {
+        issues.push({
+          param: paramMap.top_p,
+          value: topP,
+          message: `"${paramMap.top_p}" must be between 0.95 and 1 with extended thinking, got ${topP}.`,
+          severity: "error",
+        });
+      }
+      const topK = config.params[paramMap.top_k];
+      if (topK !== undefined) {
+        issues.push({
+          param: paramMap.top_k,
+          value: topK,
+          message: `"${paramMap.top_k}" can't be used with extended thinking.`,
+          severity: "error",
+        });
+      }
+    }
+  }
+
+  // Gateway routing: known provider slugs, and gateway model IDs to fall back to
+  const orderKey = paramMap.provider_order;
+  const orderValue = orderKey ? config.params[orderKey] : undefined;
+  const slugs = GATEWAY_PROVIDER_SLUGS[provider];
+  if (orderValue !== undefined && slugs) {
+    for (const slug of splitListValue(orderValue)) {
+      if (slug !== "" && !slugs.includes(slug)) {
+        issues.push({
+          param: orderKey,
+          value: slug,
+          message: `Unknown ${provider} provider "${slug}" in "${orderKey}". Known providers: ${slugs.join(", ")}.`,
+          severity: options.strict ? "error" : "warning",
+        });
+      }
+    }
+  }
+  const modelsKey = paramMap.models;
+  const modelsValue = modelsKey ? config.params[modelsKey] : undefined;
+  if (modelsValue !== undefined) {
+    for (const model of splitListValue(modelsValue)) {
+      if (model !== "" && !model.includes("/")) {
+        issues.push({
+          param: modelsKey,
+          value: model,
+          message: `"${modelsKey}" takes ${provider} model IDs like "anthropic/claude-sonnet-4-5", got "${model}".`,
+          severity: "error",
+        });
+      }
+    }
+  }
+
+  // Structured output: the schema must parse and use only features the
+  // provider accepts, and the model must support it
+  const jsonKey = paramMap.json;
+  const schemaKey = paramMap.schema;
+  const jsonValue = jsonKey ? config.params[jsonKey] : undefined;
+  const schemaValue = schemaKey ? config.params[schemaKey] : undefined;
+  if (schemaKey && schemaValue !== undefined) {
+    const schema = parseSchemaParam(schemaValue);
+    if (!schema) {
+      issues.push({
+        param: schemaKey,
+        value: schemaValue,
+        message: `"${schemaKey}" should be a JSON Schema object (URL-encoded JSON).`,
+        severity: "error",
+      });
+    } else {
+      for (const problem of findSchemaProblems(schema, effectiveProvider)) {
+        issues.push({
+          param: schemaKey,
+          value: schemaValue,
+          message: `Unsupported "${schemaKey}": ${problem}.`,
+          severity: "error",
+        });
+      }
+    }
+  }
+  const structuredKey =
+    schemaValue !== undefined
+      ? schemaKey
+      : jsonValue === "true" || jsonValue === "1" || jsonValue === JSON_MIME_TYPE
+        ? jsonKey
+        : undefined;
+  if (structuredKey) {
+    const structuredValue = config.params[structuredKey];
+    if (modelInfo && !modelInfo.structuredOutput) {
+      issues.push({
+        param: structuredKey,
+        value: structuredValue,
+        message: `${modelInfo.id} doesn't support structured output.`,
+        severity: "error",
+      });
+    } else if (!modelInfo && isReasoningTarget(provider, config.model)) {
+      // Early reasoning models (o1-preview, o1-mini) predate structured
+      // outputs; Azure deployment names don't say which one they run
+      issues.push({
+        param: structuredKey,
+        value: structuredValue,
+        message: `Structured output may not be supported by reasoning model "${config.model}".`,
+        severity: options.strict ? "error" : "warning",
+      });
+    }
+    if (effectiveProvider === "anthropic" && schemaValue === undefined) {
+      issues.push({
+        param: structuredKey,
+        value: structuredValue,
+        message: `Anthropic has no JSON mode; add a "schema" for structured output.`,
+        severity: options.strict ? "error" : "warning",
+      });
+    }
+  }
+
   return issues;
 }
@@ -6,6 +6,16 @@ export default defineConfig({
     "src/parse.ts",
     "src/normalize.ts",
     "src/validate.ts",
+    "src/request.ts",
+    "src/secrets.ts",
+    "src/redact.ts",
+    "src/merge.ts",
+    "src/chain.ts",
+    "src/split.ts",
+    "src/convert.ts",
+    "src/fix.ts",
+    "src/schema.ts",
+    "src/bin.ts",
     "src/providers.ts",
   ],
   format: ["esm", "cjs"],